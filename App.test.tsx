@@ -0,0 +1,298 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+
+const generateContent = vi.fn();
+const getModel = vi.fn();
+
+vi.mock('@google/genai', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@google/genai')>();
+  return {
+    ...actual,
+    GoogleGenAI: vi.fn(() => ({ models: { generateContent, get: getModel } })),
+  };
+});
+
+// jsdom has no camera or canvas; capture and thumbnails are stubbed out.
+vi.mock('./components/CameraView.tsx', () => ({
+  default: ({ onCapture, isLoading }: { onCapture: (base64: string) => void; isLoading: boolean }) => (
+    <div>
+      {isLoading && <span>Analyzing</span>}
+      <button onClick={() => onCapture('aGVsbG8=')}>Capture</button>
+    </div>
+  ),
+}));
+
+vi.mock('./services/image.ts', () => ({
+  createThumbnail: vi.fn(async () => 'data:image/jpeg;base64,dGh1bWI='),
+  cropImage: vi.fn(async () => 'data:image/jpeg;base64,Y3JvcA=='),
+  computeImageHash: vi.fn(async () => '0000000000000000'),
+  hammingDistance: vi.fn(() => 64),
+}));
+
+import App from './App.tsx';
+import { loadHistory, saveHistoryItem } from './services/history.ts';
+import { getActiveKey, setActiveKey } from './services/keyVault.ts';
+
+const REPLY = JSON.stringify({
+  objectName: 'Peshawari Chappal',
+  price: { min: 1800, typical: 2500, max: 3500, unit: 'pair', confidence: 'high' },
+  translations: {
+    urdu: { name: 'پشاوری چپل', phonetic: 'Peshawari chappal' },
+    pashto: { name: 'پېښوري څپلۍ', phonetic: 'Pekhawri tsaplai' },
+    hindko: { name: 'پشوری چپل', phonetic: 'Pishori chappal' },
+  },
+  description: 'Hand-stitched leather sandal.',
+  verifiedShops: [],
+});
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+}
+
+beforeEach(() => {
+  setActiveKey('test-key');
+  generateContent.mockReset();
+  getModel.mockReset().mockResolvedValue({ name: 'models/gemini-3-flash-preview' });
+  localStorage.clear();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('No network in tests'));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('App state transitions', () => {
+  it('asks for a key when none is configured and goes idle once it verifies', async () => {
+    setActiveKey(null);
+    render(<App />);
+
+    expect(await screen.findByText('Access Key Required')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Gemini API key'), { target: { value: 'entered-key' } });
+    fireEvent.click(screen.getByText('Verify & Save'));
+
+    expect(await screen.findByText('Capture')).toBeInTheDocument();
+    expect(getModel).toHaveBeenCalledWith({ model: 'gemini-3-flash-preview' });
+    expect(getActiveKey()).toBe('entered-key');
+  });
+
+  it('keeps asking when the key is rejected', async () => {
+    setActiveKey(null);
+    getModel.mockRejectedValue(new Error('400 API key not valid. Please pass a valid API key.'));
+    render(<App />);
+
+    fireEvent.change(await screen.findByLabelText('Gemini API key'), { target: { value: 'bad-key' } });
+    fireEvent.click(screen.getByText('Verify & Save'));
+
+    expect(await screen.findByText(/key is missing, invalid/)).toBeInTheDocument();
+    expect(screen.getByText('Access Key Required')).toBeInTheDocument();
+    expect(getActiveKey()).toBeNull();
+  });
+
+  it('goes from idle through analyzing to the result', async () => {
+    const reply = deferred<{ text: string }>();
+    generateContent.mockReturnValue(reply.promise);
+    render(<App />);
+
+    fireEvent.click(await screen.findByText('Capture'));
+    expect(await screen.findByText('Analyzing')).toBeInTheDocument();
+
+    reply.resolve({ text: REPLY });
+    expect(await screen.findByRole('heading', { name: 'Peshawari Chappal' })).toBeInTheDocument();
+    expect(screen.queryByText('Capture')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Dismiss'));
+    expect(await screen.findByText('Capture')).toBeInTheDocument();
+  });
+
+  it('shows the estimate in the home currency using the stored rates', async () => {
+    localStorage.setItem('bazaar_currency', JSON.stringify({
+      home: 'USD',
+      rates: { pkrPer: { USD: 250, EUR: 300, GBP: 350, AED: 70 }, asOf: '2026-10-10T00:00:00.000Z', source: 'manual' },
+    }));
+    generateContent.mockResolvedValue({ text: REPLY });
+    render(<App />);
+
+    fireEvent.click(await screen.findByText('Capture'));
+    expect(await screen.findByText('≈ $10.00')).toBeInTheDocument();
+    expect(screen.getByText(/≈ \$7\.20–\$14\.00/)).toBeInTheDocument();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('shows the error screen when analysis fails and resets from it', async () => {
+    generateContent.mockRejectedValue(new Error('400 INVALID_ARGUMENT'));
+    render(<App />);
+
+    fireEvent.click(await screen.findByText('Capture'));
+    expect(await screen.findByText('Exploration Paused')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Reset Systems'));
+    expect(await screen.findByText('Capture')).toBeInTheDocument();
+  });
+
+  it('offers to re-enter the key when it is rejected', async () => {
+    generateContent.mockRejectedValue(new Error('400 API key not valid. Please pass a valid API key.'));
+    render(<App />);
+
+    fireEvent.click(await screen.findByText('Capture'));
+    expect(await screen.findByText('Key Not Accepted')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Re-enter Key'));
+    fireEvent.click(await screen.findByText('Change Key'));
+    fireEvent.change(screen.getByLabelText('Gemini API key'), { target: { value: 'new-key-9876' } });
+    fireEvent.click(screen.getByText('Verify & Save'));
+
+    expect(await screen.findByText('Kept for this session only.')).toBeInTheDocument();
+    expect(getActiveKey()).toBe('new-key-9876');
+  });
+
+  it('boxes every item of a shelf scan and opens or logs each one', async () => {
+    const item = JSON.parse(REPLY);
+    generateContent.mockResolvedValue({
+      text: JSON.stringify({
+        items: [
+          { ...item, box_2d: [100, 100, 500, 400] },
+          { ...item, objectName: 'Saffron', box_2d: [500, 500, 900, 900] },
+        ],
+      }),
+    });
+    render(<App />);
+
+    fireEvent.click(await screen.findByText('Whole Shelf'));
+    fireEvent.click(screen.getByText('Capture'));
+    expect(await screen.findByText('Tap an Item')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Open Peshawari Chappal' }));
+    fireEvent.click(await screen.findByText('Dismiss'));
+    expect(await screen.findByText('Tap an Item')).toBeInTheDocument();
+
+    // A double tap while the item is still being cut out logs it once.
+    const addSaffron = screen.getAllByText('Add to Log')[1];
+    fireEvent.click(addSaffron);
+    fireEvent.click(addSaffron);
+    expect(await screen.findByText('Logged')).toBeInTheDocument();
+    expect(screen.getAllByText('Add to Log')).toHaveLength(1);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Acquisition log' }));
+    expect(await screen.findAllByRole('heading', { name: 'Saffron' })).toHaveLength(1);
+  });
+
+  it('labels only directory shops as verified and rates them from the shop page', async () => {
+    generateContent.mockResolvedValue({
+      text: JSON.stringify({
+        ...JSON.parse(REPLY),
+        verifiedShops: [
+          { name: 'Chacha Nooruddin Chappal House', location: 'Qissa Khwani', specialty: 'Chappals' },
+          { name: 'Made Up Footwear', location: 'Nowhere', specialty: 'Chappals' },
+        ],
+      }),
+    });
+    render(<App />);
+
+    fireEvent.click(await screen.findByText('Capture'));
+    expect(await screen.findByText('Sample Directory')).toBeInTheDocument();
+    expect(screen.getByText('Unverified Suggestions')).toBeInTheDocument();
+    expect(screen.getByText('Made Up Footwear')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'View Chacha Nooruddin Chappal House' }));
+    expect(await screen.findByRole('img', { name: /Map of Chacha Nooruddin Chappal House/ })).toBeInTheDocument();
+    expect(screen.getByText('Nothing logged from this shop yet.')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('radio', { name: '4 stars' }));
+    fireEvent.change(screen.getByLabelText('Notes'), { target: { value: 'Ask for Nooruddin himself' } });
+    fireEvent.click(screen.getByText('Save Rating'));
+    expect(await screen.findByText('Rating Saved')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Back'));
+    expect(await screen.findByTitle('Ask for Nooruddin himself')).toHaveTextContent('4');
+  });
+
+  it('toggles the acquisition log from the header', async () => {
+    render(<App />);
+    await screen.findByText('Capture');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Acquisition log' }));
+    expect(await screen.findByText('Acquisition Log')).toBeInTheDocument();
+    expect(screen.queryByText('Capture')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Acquisition log' }));
+    expect(await screen.findByText('Capture')).toBeInTheDocument();
+    expect(screen.queryByText('Acquisition Log')).not.toBeInTheDocument();
+  });
+
+  it('flags an estimate far above what we have paid and opens its price history', async () => {
+    const price = { min: 1200, typical: 1500, max: 1800, unit: 'pair' as const, confidence: 'high' as const };
+    await saveHistoryItem({ id: 'past-1', objectName: 'Kaptaan Chappal', price, paidPKR: 1500, quantity: 1, market: { city: 'Peshawar', bazaarName: 'Khyber Bazaar' }, timestamp: 1 });
+    await saveHistoryItem({ id: 'past-2', objectName: 'Peshawari Chappals', price, paidPKR: 1700, quantity: 1, market: { city: 'Peshawar', bazaarName: 'Khyber Bazaar' }, timestamp: 2 });
+    generateContent.mockResolvedValue({ text: REPLY });
+    render(<App />);
+
+    fireEvent.click(await screen.findByText('Capture'));
+    expect(await screen.findByText('Estimate looks high')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText(/See Price History/));
+    expect(await screen.findByRole('img', { name: 'Price trend chart' })).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Peshawari Chappal' })).toBeInTheDocument();
+    expect(screen.getByText('Khyber Bazaar')).toBeInTheDocument();
+    expect(screen.getAllByText('Rs. 1,600')).toHaveLength(2);
+
+    fireEvent.click(screen.getByText('Back'));
+    expect(await screen.findByText('Estimate looks high')).toBeInTheDocument();
+  });
+
+  it('searches, edits and deletes log entries with undo', async () => {
+    const price = { min: 1500, typical: 2000, max: 2500, unit: 'piece' as const, confidence: 'medium' as const };
+    await saveHistoryItem({ id: 'vase', objectName: 'Blue Pottery Vase', price, paidPKR: 1800, timestamp: 3 });
+    render(<App />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Acquisition log' }));
+    fireEvent.change(await screen.findByRole('searchbox', { name: 'Search log' }), { target: { value: 'pottery' } });
+    expect(screen.getByRole('heading', { name: 'Blue Pottery Vase' })).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Kaptaan Chappal' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Blue Pottery Vase' }));
+    fireEvent.change(screen.getByLabelText('Total Paid (PKR)'), { target: { value: '1650' } });
+    fireEvent.change(screen.getByLabelText('Notes'), { target: { value: 'Chipped base' } });
+    fireEvent.click(screen.getByText('Save Changes'));
+    // Once in the row and once in the Paid total of the one matching entry.
+    expect(await screen.findAllByText('Rs. 1,650')).toHaveLength(2);
+    expect(screen.getByText('Chipped base')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Blue Pottery Vase' }));
+    expect(screen.queryByRole('heading', { name: 'Blue Pottery Vase' })).not.toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent('Deleted Blue Pottery Vase');
+
+    fireEvent.click(screen.getByText('Undo'));
+    expect(await screen.findByRole('heading', { name: 'Blue Pottery Vase' })).toBeInTheDocument();
+    expect(screen.getAllByText('Rs. 1,650')).toHaveLength(2);
+  });
+
+  it('re-links the shop when entries move bazaar, and clears the bazaar when set to not specified', async () => {
+    const price = { min: 800, typical: 1000, max: 1200, unit: 'kg' as const, confidence: 'high' as const };
+    const market = { city: 'Peshawar', bazaarId: 'namak-mandi', bazaarName: 'Namak Mandi' };
+    await saveHistoryItem({ id: 'apricots', objectName: 'Dried Apricots', price, shopName: 'Khyber Dry Fruit', shopId: 'khyber-dry-fruit', market, timestamp: 4 });
+    render(<App />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Acquisition log' }));
+    fireEvent.click(await screen.findByRole('checkbox', { name: 'Select Dried Apricots' }));
+    fireEvent.change(screen.getByRole('combobox', { name: 'Move selected to bazaar' }), { target: { value: 'anarkali' } });
+    await waitFor(async () => {
+      const moved = (await loadHistory()).find(item => item.id === 'apricots');
+      expect(moved?.market?.bazaarId).toBe('anarkali');
+      expect(moved?.shopId).toBeUndefined();
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Dried Apricots' }));
+    const form = screen.getByRole('form', { name: 'Edit Dried Apricots' });
+    fireEvent.change(within(form).getByLabelText('Bazaar'), { target: { value: '' } });
+    fireEvent.click(within(form).getByText('Save Changes'));
+    await waitFor(async () => {
+      expect((await loadHistory()).find(item => item.id === 'apricots')?.market).toBeUndefined();
+    });
+  });
+});
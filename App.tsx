@@ -1,31 +1,99 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import CameraView from './components/CameraView.tsx';
 import AnalysisResultView from './components/AnalysisResultView.tsx';
-import { analyzeImage } from './services/gemini.ts';
-import { AnalysisResult, AppState, HistoryItem } from './types.ts';
+import AcquisitionLog from './components/AcquisitionLog.tsx';
+import QueuedCaptureView from './components/QueuedCaptureView.tsx';
+import UpdatePrompt from './components/UpdatePrompt.tsx';
+import TranscriptView from './components/TranscriptView.tsx';
+import TranslatorView from './components/TranslatorView.tsx';
+import ErrorView from './components/ErrorView.tsx';
+import SettingsView, { ApiKeyPanel } from './components/SettingsView.tsx';
+import ShelfView from './components/ShelfView.tsx';
+import ShopDetailView from './components/ShopDetailView.tsx';
+import PriceTrendView from './components/PriceTrendView.tsx';
+import { getProvider } from './services/provider.ts';
+import { BazaarError, classifyError } from './services/errors.ts';
+import { getActiveKey } from './services/keyVault.ts';
+import { deleteHistoryItems, loadHistory, saveHistoryItem, saveHistoryItems } from './services/history.ts';
+import { getScan, listScans, saveScan } from './services/scans.ts';
+import { getTranscript, listTranscripts, saveTranscript } from './services/transcripts.ts';
+import { listShopRatings, saveShopRating } from './services/shopRatings.ts';
+import { getDirectoryShop, purchasesAtShop } from './services/shopDirectory.ts';
+import { checkEstimate } from './services/priceTrends.ts';
+import { computeImageHash, createThumbnail, cropImage } from './services/image.ts';
+import { enqueueCapture, findSimilarScans, listOutbox, processOutbox, removeOutboxEntry, retryOutboxEntry } from './services/outbox.ts';
+import { notify, requestNotificationPermission } from './services/notifications.ts';
+import { formatPriceRange } from './services/pricing.ts';
+import { refreshRates } from './services/currency.ts';
+import { registerServiceWorker } from './services/serviceWorker.ts';
+import { getCurrentPosition, locateMarket } from './services/location.ts';
+import { CITY_PROFILES, ProfileSelection, loadProfileSelection, resolveProfile, saveProfileSelection } from './services/cityProfiles.ts';
+import { AppState, HistoryItem, MarketMatch, OutboxEntry, ScanRecord, ShelfAnalysis, ShopRating, TranscriptRecord } from './types.ts';
+
+type ScanMode = 'single' | 'shelf';
+
+interface ShelfState {
+  image: string;
+  analysis: ShelfAnalysis;
+  /** Scans saved so far for the items, by item index; created when an item is opened or logged. */
+  scans: (ScanRecord | undefined)[];
+}
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(AppState.IDLE);
-  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [scan, setScan] = useState<ScanRecord | null>(null);
+  /** True when the result screen shows a stored scan reopened from the log. */
+  const [isArchivedView, setIsArchivedView] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [error, setError] = useState<{ message: string; isQuota: boolean; isConfig?: boolean; isPermission?: boolean } | null>(null);
+  const [scans, setScans] = useState<ScanRecord[]>([]);
+  const [transcripts, setTranscripts] = useState<TranscriptRecord[]>([]);
+  const [openTranscript, setOpenTranscript] = useState<TranscriptRecord | null>(null);
+  const [shopRatings, setShopRatings] = useState<ShopRating[]>([]);
+  const [openShopId, setOpenShopId] = useState<string | null>(null);
+  const [trendKey, setTrendKey] = useState<string | null>(null);
+  /** Where the shop and price history pages go back to. */
+  const detailReturnStateRef = useRef<AppState>(AppState.IDLE);
+  const [pendingCount, setPendingCount] = useState(0);
+  /** Queued captures that stopped retrying and wait for the user. */
+  const [failedCaptures, setFailedCaptures] = useState<OutboxEntry[]>([]);
+  const [scanMode, setScanMode] = useState<ScanMode>('single');
+  const [shelf, setShelf] = useState<ShelfState | null>(null);
+  const [queuedCapture, setQueuedCapture] = useState<{ entry: OutboxEntry; similar: ScanRecord[] } | null>(null);
+  const isFlushingRef = useRef(false);
+  const lastCaptureRef = useRef<string | null>(null);
+  /** Shelf items whose scan is being cut out, so opening and logging one together share a single record. */
+  const shelfScanRequestsRef = useRef(new Map<number, Promise<ScanRecord>>());
+  /** Shelf items already logged or being logged, so a double tap adds one entry. */
+  const shelfLoggedRef = useRef(new Set<number>());
+  /** Stored scan that failed to load, so Retry on the error screen reopens it rather than re-capturing. */
+  const failedScanIdRef = useRef<string | null>(null);
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [error, setError] = useState<BazaarError | null>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [profileSelection, setProfileSelection] = useState<ProfileSelection>(loadProfileSelection);
+  const [detectedMarket, setDetectedMarket] = useState<MarketMatch | null>(null);
+  const activeProfile = resolveProfile(profileSelection, detectedMarket);
+  const openShop = openShopId ? getDirectoryShop(openShopId) : undefined;
 
   useEffect(() => {
     const checkApiKey = async () => {
-      const envKey = process.env.API_KEY;
-      if (envKey && envKey !== "" && !envKey.includes("your_actual")) {
+      if (!getProvider().requiresApiKey) return;
+      if (getActiveKey()) {
         setState(AppState.IDLE);
         return;
       }
       if (window.aistudio) {
         const hasKey = await window.aistudio.hasSelectedApiKey();
         if (!hasKey) setState(AppState.CONFIG_REQUIRED);
-      } else if (!envKey) setState(AppState.CONFIG_REQUIRED);
+      } else setState(AppState.CONFIG_REQUIRED);
     };
     checkApiKey();
   }, []);
 
+  useEffect(() => {
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
+  }, []);
+
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
     const handleOffline = () => setIsOnline(false);
@@ -38,61 +106,334 @@ const App: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    const saved = localStorage.getItem('bazaar_history');
-    if (saved) {
-      try {
-        setHistory(JSON.parse(saved));
-      } catch (e) { console.error("History load error", e); }
-    }
+    const updateRates = () => refreshRates().catch(e => console.warn("Rate refresh failed", e));
+    updateRates();
+    window.addEventListener('online', updateRates);
+    return () => window.removeEventListener('online', updateRates);
+  }, []);
+
+  useEffect(() => {
+    loadHistory().then(setHistory).catch(e => console.error("History load error", e));
+    listScans().then(setScans).catch(e => console.error("Scan load error", e));
+    listTranscripts().then(setTranscripts).catch(e => console.error("Transcript load error", e));
+    listShopRatings().then(setShopRatings).catch(e => console.error("Shop rating load error", e));
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('bazaar_history', JSON.stringify(history));
-  }, [history]);
+    saveProfileSelection(profileSelection);
+    if (profileSelection) return;
+    getCurrentPosition().then(coords => {
+      if (coords) setDetectedMarket(locateMarket(coords));
+    });
+  }, [profileSelection]);
 
   const handleOpenConfig = async () => {
     if (window.aistudio) {
       await window.aistudio.openSelectKey();
       setState(AppState.IDLE);
     } else {
-      const key = prompt("Enter Gemini API Key:");
-      if (key) {
-        process.env.API_KEY = key;
-        setState(AppState.IDLE);
+      setState(AppState.SETTINGS);
+    }
+  };
+
+  const handleKeyChange = (active: boolean) => {
+    if (!active) setState(AppState.CONFIG_REQUIRED);
+    else if (state === AppState.CONFIG_REQUIRED) setState(AppState.IDLE);
+  };
+
+  const refreshOutbox = useCallback(async () => {
+    const entries = await listOutbox();
+    setPendingCount(entries.filter(entry => !entry.failed).length);
+    setFailedCaptures(entries.filter(entry => entry.failed));
+    return entries;
+  }, []);
+
+  const flushOutbox = useCallback(async () => {
+    if (!navigator.onLine || isFlushingRef.current) return;
+    isFlushingRef.current = true;
+    try {
+      const { completed, failed } = await processOutbox(async (entry) => {
+        const market = entry.location ? locateMarket(entry.location) : null;
+        const analysis = await getProvider().analyzeImage(entry.image, entry.location, resolveProfile(entry.profileId ?? null, market));
+        const record: ScanRecord = { id: entry.id, thumbnail: entry.thumbnail, hash: entry.hash, result: analysis, timestamp: entry.timestamp };
+        await saveScan(record);
+        return record;
+      });
+      if (completed.length > 0) {
+        setScans(prev => [...completed.reverse(), ...prev]);
+        completed.forEach(record => notify(
+          `${record.result.objectName} analyzed`,
+          `Queued capture is ready: ${formatPriceRange(record.result.price)}`,
+          `outbox-${record.id}`
+        ));
       }
+      failed.filter(entry => entry.failed).forEach(entry => notify(
+        'Queued capture needs attention',
+        'It could not be analyzed. Open Bazaar-Sense to retry or discard it.',
+        `outbox-${entry.id}`
+      ));
+    } catch (e) {
+      console.error("Outbox error", e);
+    } finally {
+      isFlushingRef.current = false;
+      refreshOutbox().catch(() => {});
     }
+  }, [refreshOutbox]);
+
+  useEffect(() => {
+    refreshOutbox().then(entries => {
+      if (entries.some(entry => !entry.failed)) flushOutbox();
+    }).catch(e => console.error("Outbox load error", e));
+    window.addEventListener('online', flushOutbox);
+    return () => window.removeEventListener('online', flushOutbox);
+  }, [flushOutbox, refreshOutbox]);
+
+  /** Leaves the outbox screen once nothing is left on it. */
+  const leaveEmptyOutbox = (entries: OutboxEntry[]) => {
+    if (!queuedCapture && !entries.some(entry => entry.failed)) handleReset();
   };
 
-  const handleCapture = useCallback(async (base64: string) => {
-    if (!navigator.onLine) {
-      setError({ message: "You appear to be offline.", isQuota: false });
-      setState(AppState.ERROR);
-      return;
+  const handleRetryQueued = async (entry: OutboxEntry) => {
+    try {
+      await retryOutboxEntry(entry);
+      leaveEmptyOutbox(await refreshOutbox());
+      flushOutbox();
+    } catch (e) {
+      console.error("Outbox retry error", e);
     }
+  };
+
+  const handleDiscardQueued = async (entry: OutboxEntry) => {
+    try {
+      await removeOutboxEntry(entry.id);
+      leaveEmptyOutbox(await refreshOutbox());
+    } catch (e) {
+      console.error("Outbox discard error", e);
+    }
+  };
+
+  const handleCapture = useCallback(async (base64: string) => {
+    lastCaptureRef.current = base64;
+    failedScanIdRef.current = null;
     try {
       setState(AppState.ANALYZING);
       setError(null);
-      const analysis = await analyzeImage(base64);
-      setResult(analysis);
-      setState(AppState.RESULT);
-    } catch (err: any) {
-      console.error('Analysis Error:', err);
-      const errMsg = err?.message || "Unknown error";
-      if (errMsg.includes("Requested entity was not found.")) {
-        setState(AppState.CONFIG_REQUIRED);
+      const location = await getCurrentPosition();
+      const market = location ? locateMarket(location) : null;
+      if (market) setDetectedMarket(market);
+      const thumbnail = await createThumbnail(base64).catch(() => `data:image/jpeg;base64,${base64}`);
+      const hash = await computeImageHash(thumbnail).catch(() => undefined);
+
+      // The outbox only replays single-item analyses, so shelf captures made offline queue as one.
+      if (!navigator.onLine) {
+        const entry: OutboxEntry = {
+          id: Date.now().toString(),
+          image: base64,
+          thumbnail,
+          hash,
+          location: location ?? undefined,
+          profileId: profileSelection ?? undefined,
+          attempts: 0,
+          timestamp: Date.now(),
+        };
+        await enqueueCapture(entry);
+        setPendingCount(count => count + 1);
+        setQueuedCapture({ entry, similar: findSimilarScans(hash, scans) });
+        setState(AppState.QUEUED);
+        requestNotificationPermission();
+        return;
+      }
+
+      if (scanMode === 'shelf') {
+        const analysis = await getProvider().analyzeShelf(base64, location ?? undefined, resolveProfile(profileSelection, market));
+        shelfScanRequestsRef.current.clear();
+        shelfLoggedRef.current.clear();
+        setShelf({ image: base64, analysis, scans: [] });
+        setState(AppState.SHELF);
         return;
       }
-      setError({ message: `Connection error: ${errMsg.slice(0, 50)}...`, isQuota: errMsg.includes('429'), isConfig: errMsg.includes('KEY_NOT_CONFIGURED') });
+
+      const analysis = await getProvider().analyzeImage(base64, location ?? undefined, resolveProfile(profileSelection, market));
+      const record: ScanRecord = { id: Date.now().toString(), thumbnail, hash, result: analysis, timestamp: Date.now() };
+      saveScan(record).catch(e => console.error("Scan save error", e));
+      setScans(prev => [record, ...prev]);
+      setScan(record);
+      setIsArchivedView(false);
+      setState(AppState.RESULT);
+    } catch (err) {
+      console.error('Analysis Error:', err);
+      setError(classifyError(err));
       setState(AppState.ERROR);
     }
-  }, []);
+  }, [profileSelection, scans, scanMode]);
+
+  const handleRetry = () => {
+    if (failedScanIdRef.current) handleOpenScan(failedScanIdRef.current);
+    else if (lastCaptureRef.current) handleCapture(lastCaptureRef.current);
+    else handleReset();
+  };
 
   const handleReset = () => {
-    setResult(null);
+    setScan(null);
+    setShelf(null);
+    setQueuedCapture(null);
+    setOpenTranscript(null);
+    setOpenShopId(null);
+    setTrendKey(null);
+    setIsArchivedView(false);
     setError(null);
     setState(AppState.IDLE);
   };
 
+  const handleSaveHistory = (item: HistoryItem) => {
+    setHistory(prev => [item, ...prev]);
+    saveHistoryItem(item).catch(e => console.error("History save error", e));
+  };
+
+  const handleUpdateHistory = (items: HistoryItem[]) => {
+    const updated = new Map(items.map(item => [item.id, item]));
+    setHistory(prev => prev.map(item => updated.get(item.id) ?? item));
+    saveHistoryItems(items).catch(e => console.error("History save error", e));
+  };
+
+  const handleDeleteHistory = (ids: string[]) => {
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    deleteHistoryItems(ids).catch(e => console.error("History delete error", e));
+  };
+
+  const handleRestoreHistory = (items: HistoryItem[]) => {
+    setHistory(prev => [...items, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+    saveHistoryItems(items).catch(e => console.error("History save error", e));
+  };
+
+  const handleSaveTranscript = (transcript: TranscriptRecord) => {
+    setTranscripts(prev => [transcript, ...prev.filter(t => t.id !== transcript.id)]);
+    saveTranscript(transcript).catch(e => console.error("Transcript save error", e));
+  };
+
+  const handleOpenShop = (shopId: string) => {
+    detailReturnStateRef.current = state;
+    setOpenShopId(shopId);
+    setState(AppState.SHOP);
+  };
+
+  const handleOpenTrend = (key: string) => {
+    detailReturnStateRef.current = state;
+    setTrendKey(key);
+    setState(AppState.TREND);
+  };
+
+  const handleCloseDetail = () => {
+    setOpenShopId(null);
+    setTrendKey(null);
+    setState(detailReturnStateRef.current);
+  };
+
+  const handleSaveShopRating = (rating: ShopRating) => {
+    setShopRatings(prev => [rating, ...prev.filter(r => r.shopId !== rating.shopId)]);
+    saveShopRating(rating).catch(e => console.error("Shop rating save error", e));
+  };
+
+  const handleOpenTranscript = async (transcriptId: string) => {
+    const stored = transcripts.find(t => t.id === transcriptId) ?? await getTranscript(transcriptId);
+    if (!stored) return;
+    setOpenTranscript(stored);
+    setState(AppState.TRANSCRIPT);
+  };
+
+  /** The stored scan for a shelf item, cropped out of the shelf photo and saved the first time it is needed. */
+  const shelfItemScan = (current: ShelfState, index: number): Promise<ScanRecord> => {
+    const existing = current.scans[index];
+    if (existing) return Promise.resolve(existing);
+    const pending = shelfScanRequestsRef.current.get(index);
+    if (pending) return pending;
+    const request = createShelfItemScan(current, index);
+    shelfScanRequestsRef.current.set(index, request);
+    request.catch(() => shelfScanRequestsRef.current.delete(index));
+    return request;
+  };
+
+  const createShelfItemScan = async (current: ShelfState, index: number): Promise<ScanRecord> => {
+    const { box, result } = current.analysis.items[index];
+    const thumbnail = await cropImage(current.image, box).catch(() => `data:image/jpeg;base64,${current.image}`);
+    const hash = await computeImageHash(thumbnail).catch(() => undefined);
+    const record: ScanRecord = {
+      id: `${Date.now()}-${index}`,
+      thumbnail,
+      hash,
+      result: { ...result, groundingSources: current.analysis.groundingSources },
+      timestamp: Date.now(),
+    };
+    saveScan(record).catch(e => console.error("Scan save error", e));
+    setScans(prev => [record, ...prev]);
+    setShelf(prev => {
+      if (!prev || prev.image !== current.image) return prev;
+      const scans = [...prev.scans];
+      scans[index] = record;
+      return { ...prev, scans };
+    });
+    return record;
+  };
+
+  const handleOpenShelfItem = async (index: number) => {
+    if (!shelf) return;
+    setScan(await shelfItemScan(shelf, index));
+    setIsArchivedView(false);
+    setState(AppState.RESULT);
+  };
+
+  const handleLogShelfItem = async (index: number) => {
+    if (!shelf || shelfLoggedRef.current.has(index)) return;
+    shelfLoggedRef.current.add(index);
+    let record: ScanRecord;
+    try {
+      record = await shelfItemScan(shelf, index);
+    } catch (err) {
+      console.error('Shelf item error', err);
+      shelfLoggedRef.current.delete(index);
+      return;
+    }
+    handleSaveHistory({
+      id: Date.now().toString(),
+      objectName: record.result.objectName,
+      price: record.result.price,
+      market: record.result.market,
+      scanId: record.id,
+      timestamp: Date.now(),
+    });
+  };
+
+  const handleOpenScan = async (scanId: string) => {
+    let stored: ScanRecord | undefined;
+    try {
+      stored = scans.find(s => s.id === scanId) ?? await getScan(scanId);
+    } catch (err) {
+      console.error('Scan load error', err);
+      failedScanIdRef.current = scanId;
+      setError(classifyError(err));
+      setState(AppState.ERROR);
+      return;
+    }
+    failedScanIdRef.current = null;
+    if (!stored) return;
+    setScan(stored);
+    setIsArchivedView(true);
+    setState(AppState.RESULT);
+  };
+
+  const handleCloseResult = () => {
+    if (shelf && scan && shelf.scans.some(s => s?.id === scan.id)) {
+      setScan(null);
+      setState(AppState.SHELF);
+    } else if (isArchivedView) {
+      setScan(null);
+      setIsArchivedView(false);
+      setState(AppState.HISTORY);
+    } else {
+      handleReset();
+    }
+  };
+
   if (state === AppState.CONFIG_REQUIRED) {
     return (
       <div className="min-h-screen bg-teal-950 flex items-center justify-center p-6">
@@ -102,7 +443,11 @@ const App: React.FC = () => {
           </div>
           <h1 className="text-3xl font-black text-teal-900 mb-3 tracking-tight">Access Key Required</h1>
           <p className="text-teal-900/50 text-sm mb-10 font-medium leading-relaxed">Securely connect your Gemini API key to unlock real-time bazaar intelligence and language translation.</p>
-          <button onClick={handleOpenConfig} className="w-full py-5 bg-teal-800 text-white rounded-2xl font-bold text-xs uppercase tracking-[0.3em] btn-elegant shadow-xl shadow-teal-900/20">Connect Securely</button>
+          {window.aistudio ? (
+            <button onClick={handleOpenConfig} className="w-full py-5 bg-teal-800 text-white rounded-2xl font-bold text-xs uppercase tracking-[0.3em] btn-elegant shadow-xl shadow-teal-900/20">Connect Securely</button>
+          ) : (
+            <ApiKeyPanel onKeyChange={handleKeyChange} />
+          )}
         </div>
       </div>
     );
@@ -111,7 +456,22 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen flex flex-col items-center p-6 md:p-10 max-w-5xl mx-auto">
       {!isOnline && (
-        <div className="fixed top-0 left-0 right-0 bg-rose-600 text-white text-[10px] font-black tracking-[0.4em] py-2 text-center z-[100] animate-in slide-in-from-top uppercase shadow-lg">Network Interrupted</div>
+        <div className="fixed top-0 left-0 right-0 bg-rose-600 text-white text-[10px] font-black tracking-[0.4em] py-2 text-center z-[100] animate-in slide-in-from-top uppercase shadow-lg">
+          Network Interrupted{pendingCount > 0 && <> &bull; {pendingCount} queued</>}
+        </div>
+      )}
+      {isOnline && pendingCount > 0 && (
+        <div className="fixed top-0 left-0 right-0 bg-amber-500 text-white text-[10px] font-black tracking-[0.4em] py-2 text-center z-[100] animate-in slide-in-from-top uppercase shadow-lg">
+          Analyzing {pendingCount} queued {pendingCount === 1 ? 'capture' : 'captures'}
+        </div>
+      )}
+      {isOnline && pendingCount === 0 && failedCaptures.length > 0 && state !== AppState.QUEUED && (
+        <button
+          onClick={() => setState(AppState.QUEUED)}
+          className="fixed top-0 left-0 right-0 bg-rose-600 text-white text-[10px] font-black tracking-[0.4em] py-2 text-center z-[100] animate-in slide-in-from-top uppercase shadow-lg"
+        >
+          {failedCaptures.length} queued {failedCaptures.length === 1 ? 'capture' : 'captures'} failed &bull; Review
+        </button>
       )}
 
       <header className="w-full flex items-center justify-between mb-8 md:mb-12 px-4 py-3 bg-white/40 backdrop-blur-md rounded-[2rem] border border-white/60 elegant-shadow">
@@ -123,11 +483,39 @@ const App: React.FC = () => {
             <h1 className="text-xl md:text-2xl font-black tracking-tighter text-teal-900 leading-none">
               Bazaar<span className="text-amber-600">Sense</span>
             </h1>
-            <p className="text-[8px] uppercase font-black tracking-[0.5em] text-teal-900/30 mt-1">Peshawar Authenticated</p>
+            <p className="text-[8px] uppercase font-black tracking-[0.5em] text-teal-900/30 mt-1">{activeProfile.name} Authenticated</p>
           </div>
         </div>
-        
+
+        <select
+          value={profileSelection ?? ''}
+          onChange={(e) => setProfileSelection(e.target.value || null)}
+          className="ml-auto mr-3 px-3 py-2.5 rounded-2xl bg-white border border-teal-50 shadow-sm text-[10px] font-black uppercase tracking-widest text-teal-800 outline-none"
+        >
+          <option value="">Auto &bull; {resolveProfile(null, detectedMarket).name}</option>
+          {CITY_PROFILES.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+
+        <button
+          aria-label="Translator"
+          onClick={() => setState(state === AppState.TRANSLATOR ? AppState.IDLE : AppState.TRANSLATOR)}
+          className={`p-3.5 mr-3 rounded-2xl transition-all active:scale-90 ${state === AppState.TRANSLATOR ? 'bg-amber-500 text-white shadow-xl shadow-amber-200' : 'bg-white text-teal-400 border border-teal-50 shadow-sm'}`}
+        >
+          <svg className="w-5 h-5 md:w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+        </button>
+
+        <button
+          aria-label="Settings"
+          onClick={() => setState(state === AppState.SETTINGS ? AppState.IDLE : AppState.SETTINGS)}
+          className={`p-3.5 mr-3 rounded-2xl transition-all active:scale-90 ${state === AppState.SETTINGS ? 'bg-amber-500 text-white shadow-xl shadow-amber-200' : 'bg-white text-teal-400 border border-teal-50 shadow-sm'}`}
+        >
+          <svg className="w-5 h-5 md:w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+        </button>
+
         <button 
+          aria-label="Acquisition log"
           onClick={() => setState(state === AppState.HISTORY ? AppState.IDLE : AppState.HISTORY)}
           className={`p-3.5 rounded-2xl transition-all active:scale-90 ${state === AppState.HISTORY ? 'bg-amber-500 text-white shadow-xl shadow-amber-200' : 'bg-white text-teal-400 border border-teal-50 shadow-sm'}`}
         >
@@ -137,38 +525,19 @@ const App: React.FC = () => {
 
       <main className="w-full max-w-3xl relative">
         {state === AppState.HISTORY && (
-          <div className="bg-white rounded-[3rem] elegant-shadow p-8 md:p-12 animate-in fade-in slide-in-from-bottom-4 duration-500 border border-teal-50">
-            <div className="flex items-center gap-4 mb-10">
-               <div className="w-12 h-12 bg-amber-50 rounded-2xl flex items-center justify-center text-amber-600">
-                  <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"/></svg>
-               </div>
-               <h2 className="text-2xl md:text-4xl font-black text-teal-900 tracking-tight">Acquisition Log</h2>
-            </div>
-            {history.length === 0 ? (
-              <div className="text-center py-24 px-10">
-                 <p className="text-teal-900/30 text-sm font-bold uppercase tracking-widest mb-4">No records found</p>
-                 <p className="text-teal-900/50 text-xs italic">Capture items in the market to build your catalog.</p>
-              </div>
-            ) : (
-              <div className="space-y-4 max-h-[50vh] overflow-y-auto pr-3 custom-scrollbar">
-                {history.map((item) => (
-                  <div key={item.id} className="p-6 rounded-[2rem] border border-teal-50 bg-teal-50/20 flex justify-between items-center transition-all hover:bg-teal-50/50 group">
-                    <div className="flex items-center gap-5">
-                      <div className="w-12 h-12 rounded-2xl bg-white border border-teal-100 flex items-center justify-center text-teal-800 shadow-sm group-hover:scale-110 transition-transform">
-                         <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-6h2v6zm0-8h-2V7h2v2z"/></svg>
-                      </div>
-                      <div>
-                        <h3 className="text-base font-black text-teal-900">{item.objectName}</h3>
-                        <p className="text-[10px] font-bold text-teal-400 mt-0.5 uppercase tracking-widest">{new Date(item.timestamp).toLocaleDateString(undefined, { dateStyle: 'medium' })}</p>
-                      </div>
-                    </div>
-                    <div className="text-amber-600 text-lg font-black">{item.pricePKR}</div>
-                  </div>
-                ))}
-              </div>
-            )}
-            <button onClick={handleReset} className="w-full mt-10 py-6 bg-teal-900 text-white rounded-3xl font-black text-xs uppercase tracking-[0.4em] btn-elegant shadow-2xl shadow-teal-900/20">Resume Discovery</button>
-          </div>
+          <AcquisitionLog
+            history={history}
+            scans={scans}
+            transcripts={transcripts}
+            onOpenScan={handleOpenScan}
+            onOpenTranscript={handleOpenTranscript}
+            onOpenShop={handleOpenShop}
+            onOpenTrend={handleOpenTrend}
+            onUpdateItems={handleUpdateHistory}
+            onDeleteItems={handleDeleteHistory}
+            onRestoreItems={handleRestoreHistory}
+            onClose={handleReset}
+          />
         )}
 
         {(state === AppState.IDLE || state === AppState.ANALYZING) && (
@@ -186,30 +555,107 @@ const App: React.FC = () => {
               </div>
             </div>
             
+            <div role="group" aria-label="Scan mode" className="flex justify-center gap-2">
+              {([['single', 'Single Item'], ['shelf', 'Whole Shelf']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  aria-pressed={scanMode === mode}
+                  disabled={state === AppState.ANALYZING}
+                  onClick={() => setScanMode(mode)}
+                  className={`px-5 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${scanMode === mode ? 'bg-teal-800 text-white shadow-lg shadow-teal-900/20' : 'bg-white text-teal-400 border border-teal-50'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
             <CameraView onCapture={handleCapture} isLoading={state === AppState.ANALYZING} />
           </div>
         )}
 
-        {state === AppState.RESULT && result && (
+        {state === AppState.SHELF && shelf && (
+          <ShelfView
+            image={shelf.image}
+            analysis={shelf.analysis}
+            estimateChecks={shelf.analysis.items.map(item => checkEstimate(item.result, history))}
+            logged={shelf.scans.flatMap((record, index) => (record && history.some(item => item.scanId === record.id) ? [index] : []))}
+            onOpenItem={handleOpenShelfItem}
+            onAddToLog={handleLogShelfItem}
+            onReset={handleReset}
+          />
+        )}
+
+        {state === AppState.RESULT && scan && (
           <AnalysisResultView 
-            result={result} 
-            onReset={handleReset} 
-            onSaveHistory={(item) => setHistory(prev => [item, ...prev])} 
+            key={scan.id}
+            result={scan.result} 
+            scanId={scan.id}
+            thumbnail={scan.thumbnail}
+            loggedItems={isArchivedView ? history.filter(item => item.scanId === scan.id) : undefined}
+            shopRatings={shopRatings}
+            estimateCheck={checkEstimate(scan.result, history.filter(item => item.scanId !== scan.id))}
+            onOpenShop={handleOpenShop}
+            onOpenTrend={handleOpenTrend}
+            onReset={handleCloseResult} 
+            onSaveHistory={handleSaveHistory} 
+            onSaveTranscript={handleSaveTranscript}
+          />
+        )}
+
+        {state === AppState.TRANSLATOR && (
+          <TranslatorView key={activeProfile.id} profile={activeProfile} onSaveTranscript={handleSaveTranscript} onClose={handleReset} />
+        )}
+
+        {state === AppState.SETTINGS && (
+          <SettingsView onKeyChange={handleKeyChange} onClose={handleReset} />
+        )}
+
+        {state === AppState.SHOP && openShop && (
+          <ShopDetailView
+            key={openShop.id}
+            shop={openShop}
+            purchases={purchasesAtShop(history, openShop)}
+            rating={shopRatings.find(r => r.shopId === openShop.id)}
+            onSaveRating={handleSaveShopRating}
+            onOpenScan={handleOpenScan}
+            onClose={handleCloseDetail}
+          />
+        )}
+
+        {state === AppState.TREND && trendKey && (
+          <PriceTrendView itemKey={trendKey} history={history} onOpenScan={handleOpenScan} onClose={handleCloseDetail} />
+        )}
+
+        {state === AppState.TRANSCRIPT && openTranscript && (
+          <TranscriptView
+            transcript={openTranscript}
+            onOpenScan={scans.some(s => s.id === openTranscript.scanId) ? handleOpenScan : undefined}
+            onClose={() => { setOpenTranscript(null); setState(AppState.HISTORY); }}
+          />
+        )}
+
+        {state === AppState.QUEUED && (queuedCapture || failedCaptures.length > 0) && (
+          <QueuedCaptureView
+            entry={queuedCapture?.entry ?? null}
+            similar={queuedCapture?.similar ?? []}
+            pendingCount={pendingCount}
+            failed={failedCaptures}
+            onRetryFailed={handleRetryQueued}
+            onDiscardFailed={handleDiscardQueued}
+            onOpenScan={handleOpenScan}
+            onReset={handleReset}
           />
         )}
 
         {state === AppState.ERROR && error && (
-          <div className="bg-white p-12 md:p-16 rounded-[3rem] elegant-shadow text-center animate-in zoom-in-95 duration-300 border-4 border-rose-50">
-            <div className="w-24 h-24 bg-rose-50 text-rose-500 rounded-[2.5rem] flex items-center justify-center mx-auto mb-8 shadow-xl shadow-rose-100/50 rotate-6">
-              <svg className="w-12 h-12" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
-            </div>
-            <h2 className="text-3xl font-black text-teal-950 mb-3 tracking-tighter">Exploration Paused</h2>
-            <p className="text-teal-900/50 mb-12 text-sm font-medium leading-relaxed max-w-xs mx-auto italic">"{error.message}"</p>
-            <button onClick={handleReset} className="w-full max-w-xs py-6 rounded-3xl font-black uppercase text-xs tracking-[0.3em] text-white bg-teal-900 btn-elegant shadow-2xl shadow-teal-900/30 mx-auto block">Reset Systems</button>
-          </div>
+          <ErrorView error={error} onRetry={handleRetry} onReenterKey={handleOpenConfig} onReset={handleReset} />
         )}
       </main>
 
+      {applyUpdate && (
+        <UpdatePrompt onReload={applyUpdate} onDismiss={() => setApplyUpdate(null)} />
+      )}
+
       <footer className="mt-auto py-12 text-center">
         <div className="flex items-center justify-center gap-4 mb-4 opacity-20">
            <div className="w-8 h-[1px] bg-teal-900"></div>
@@ -0,0 +1,465 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HistoryItem, MarketMatch, ScanRecord, TranscriptRecord } from '../types.ts';
+import { formatPKR, formatPriceRange, formatUnit } from '../services/pricing.ts';
+import { describeMarket } from '../services/location.ts';
+import { dealSavings, summarizeLedger } from '../services/ledger.ts';
+import { LANGUAGE_LABELS } from '../services/cityProfiles.ts';
+import { CITIES, getBazaar, getBazaarsInCity } from '../services/gazetteer.ts';
+import { findDirectoryShop, getDirectoryShop } from '../services/shopDirectory.ts';
+import { itemKey } from '../services/canonicalItems.ts';
+import { HISTORY_SORTS, HistoryFilters, HistorySort, NO_FILTERS, historyPlaces, isFiltered, queryHistory } from '../services/historyQuery.ts';
+import HomePrice from './HomePrice.tsx';
+
+interface AcquisitionLogProps {
+  history: HistoryItem[];
+  scans: ScanRecord[];
+  transcripts: TranscriptRecord[];
+  onOpenScan: (scanId: string) => void;
+  onOpenTranscript: (transcriptId: string) => void;
+  onOpenShop: (shopId: string) => void;
+  onOpenTrend: (itemKey: string) => void;
+  onUpdateItems: (items: HistoryItem[]) => void;
+  onDeleteItems: (ids: string[]) => void;
+  /** Puts entries back after a delete is undone. */
+  onRestoreItems: (items: HistoryItem[]) => void;
+  onClose: () => void;
+}
+
+/** How long the undo prompt stays up after a delete. */
+const UNDO_MS = 8000;
+
+const inputClass = 'w-full px-4 py-3 rounded-xl bg-white border border-teal-100 text-sm font-semibold text-teal-900 outline-none focus:border-teal-400';
+const labelClass = 'text-[9px] font-black text-teal-600 uppercase tracking-[0.2em] mb-1.5 block';
+
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+const marketFor = (bazaarId: string): MarketMatch | undefined => {
+  const bazaar = getBazaar(bazaarId);
+  return bazaar ? { city: bazaar.city, bazaarId: bazaar.id, bazaarName: bazaar.name } : undefined;
+};
+
+const BazaarOptions: React.FC = () => (
+  <>
+    {CITIES.map(city => (
+      <optgroup key={city.name} label={city.name}>
+        {getBazaarsInCity(city.name).map(bazaar => <option key={bazaar.id} value={bazaar.id}>{bazaar.name}</option>)}
+      </optgroup>
+    ))}
+  </>
+);
+
+const SavingsBadge: React.FC<{ savings: number }> = ({ savings }) => (
+  <span className={`text-[9px] font-black uppercase tracking-widest ${savings >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+    {savings >= 0 ? `Saved ${formatPKR(savings)}` : `Over ${formatPKR(-savings)}`}
+  </span>
+);
+
+/** Inline form for correcting a logged entry. */
+const EntryEditor: React.FC<{ item: HistoryItem; onSave: (item: HistoryItem) => void; onCancel: () => void }> = ({ item, onSave, onCancel }) => {
+  const [name, setName] = useState(item.objectName);
+  const [paid, setPaid] = useState(item.paidPKR !== undefined ? String(item.paidPKR) : '');
+  const [quantity, setQuantity] = useState(item.quantity !== undefined ? String(item.quantity) : '');
+  const [shopName, setShopName] = useState(item.shopName ?? '');
+  const [bazaarId, setBazaarId] = useState(item.market?.bazaarId ?? '');
+  const [notes, setNotes] = useState(item.notes ?? '');
+
+  const paidAmount = parseAmount(paid);
+  const quantityAmount = parseAmount(quantity);
+  const isValid = name.trim() !== '' && (paid.trim() === '' || paidAmount !== undefined) && (quantity.trim() === '' || (quantityAmount ?? 0) > 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    // An untouched select keeps the old market, city-only ones included; "Not specified" clears it.
+    const market = bazaarId === (item.market?.bazaarId ?? '') ? item.market : bazaarId ? marketFor(bazaarId) : undefined;
+    const shop = shopName.trim();
+    onSave({
+      ...item,
+      objectName: name.trim(),
+      paidPKR: paidAmount !== undefined ? Math.round(paidAmount) : undefined,
+      quantity: quantityAmount || undefined,
+      shopName: shop || undefined,
+      shopId: shop ? findDirectoryShop(shop, market ? [market.city] : undefined)?.id : undefined,
+      market,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} aria-label={`Edit ${item.objectName}`} className="p-6 rounded-[2rem] border border-teal-100 bg-teal-50/40 space-y-4 animate-in fade-in">
+      <label className="block">
+        <span className={labelClass}>Item</span>
+        <input type="text" value={name} onChange={e => setName(e.target.value)} className={inputClass} required />
+      </label>
+      <div className="grid grid-cols-2 gap-4">
+        <label>
+          <span className={labelClass}>Total Paid (PKR)</span>
+          <input type="number" inputMode="numeric" min="0" value={paid} onChange={e => setPaid(e.target.value)} placeholder="Not bought" className={inputClass} />
+        </label>
+        <label>
+          <span className={labelClass}>Quantity{item.price && ` (${formatUnit(item.price.unit)})`}</span>
+          <input type="number" inputMode="decimal" min="0" step="any" value={quantity} onChange={e => setQuantity(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <label>
+          <span className={labelClass}>Shop</span>
+          <input type="text" value={shopName} onChange={e => setShopName(e.target.value)} className={inputClass} />
+        </label>
+        <label>
+          <span className={labelClass}>Bazaar</span>
+          <select value={bazaarId} onChange={e => setBazaarId(e.target.value)} className={inputClass}>
+            <option value="">{item.market && !item.market.bazaarId ? describeMarket(item.market) : 'Not specified'}</option>
+            <BazaarOptions />
+          </select>
+        </label>
+      </div>
+      <label className="block">
+        <span className={labelClass}>Notes</span>
+        <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} className={`${inputClass} resize-none`} />
+      </label>
+      <div className="flex gap-3">
+        <button type="submit" disabled={!isValid} className="flex-1 py-4 rounded-2xl bg-teal-800 text-white font-black text-[10px] uppercase tracking-[0.3em] btn-elegant disabled:opacity-40">Save Changes</button>
+        <button type="button" onClick={onCancel} className="px-8 py-4 rounded-2xl bg-white text-teal-400 font-black text-[10px] uppercase tracking-[0.3em] border border-teal-100">Cancel</button>
+      </div>
+    </form>
+  );
+};
+
+const AcquisitionLog: React.FC<AcquisitionLogProps> = ({ history, scans, transcripts, onOpenScan, onOpenTranscript, onOpenShop, onOpenTrend, onUpdateItems, onDeleteItems, onRestoreItems, onClose }) => {
+  const [filters, setFilters] = useState<HistoryFilters>(NO_FILTERS);
+  const [sort, setSort] = useState<HistorySort>('newest');
+  const [showFilters, setShowFilters] = useState(false);
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleted, setDeleted] = useState<HistoryItem[] | null>(null);
+  const undoTimerRef = useRef<number | null>(null);
+
+  const activeFilters = { ...filters, minPKR: parseAmount(minPrice), maxPKR: parseAmount(maxPrice) };
+  const visible = queryHistory(history, activeFilters, sort);
+  const filtered = isFiltered(activeFilters);
+  const places = historyPlaces(history);
+  const selectedItems = visible.filter(item => selected.has(item.id));
+  const allSelected = visible.length > 0 && selectedItems.length === visible.length;
+
+  const summary = summarizeLedger(visible);
+  const thumbnails = new Map(scans.map(scan => [scan.id, scan.thumbnail]));
+
+  useEffect(() => () => {
+    if (undoTimerRef.current !== null) window.clearTimeout(undoTimerRef.current);
+  }, []);
+
+  const updateFilter = (patch: Partial<HistoryFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  const clearFilters = () => {
+    setFilters(NO_FILTERS);
+    setMinPrice('');
+    setMaxPrice('');
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDelete = (items: HistoryItem[]) => {
+    if (items.length === 0) return;
+    onDeleteItems(items.map(item => item.id));
+    setSelected(prev => new Set([...prev].filter(id => !items.some(item => item.id === id))));
+    if (editingId && items.some(item => item.id === editingId)) setEditingId(null);
+    setDeleted(items);
+    if (undoTimerRef.current !== null) window.clearTimeout(undoTimerRef.current);
+    undoTimerRef.current = window.setTimeout(() => setDeleted(null), UNDO_MS);
+  };
+
+  const handleUndo = () => {
+    if (!deleted) return;
+    onRestoreItems(deleted);
+    setDeleted(null);
+    if (undoTimerRef.current !== null) window.clearTimeout(undoTimerRef.current);
+  };
+
+  const handleMoveSelected = (bazaarId: string) => {
+    const market = marketFor(bazaarId);
+    if (!market || selectedItems.length === 0) return;
+    onUpdateItems(selectedItems.map(item => ({
+      ...item,
+      market,
+      shopId: item.shopName ? findDirectoryShop(item.shopName, [market.city])?.id : undefined,
+    })));
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="bg-white rounded-[3rem] elegant-shadow p-8 md:p-12 animate-in fade-in slide-in-from-bottom-4 duration-500 border border-teal-50">
+      <div className="flex items-center gap-4 mb-10">
+         <div className="w-12 h-12 bg-amber-50 rounded-2xl flex items-center justify-center text-amber-600">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"/></svg>
+         </div>
+         <h2 className="text-2xl md:text-4xl font-black text-teal-900 tracking-tight">Acquisition Log</h2>
+      </div>
+
+      {summary.comparedCount > 0 && (
+        <div className="grid grid-cols-3 gap-3 mb-8">
+          <div className="p-4 rounded-2xl bg-teal-50/50 border border-teal-100/50">
+            <span className="text-[8px] font-black text-teal-600 uppercase tracking-[0.2em] block">Paid</span>
+            <span className="text-base md:text-lg font-black text-teal-900">{formatPKR(summary.totalPaid)}</span>
+            <HomePrice amount={summary.totalPaid} />
+          </div>
+          <div className="p-4 rounded-2xl bg-teal-50/50 border border-teal-100/50">
+            <span className="text-[8px] font-black text-teal-600 uppercase tracking-[0.2em] block">Estimated</span>
+            <span className="text-base md:text-lg font-black text-teal-900">{formatPKR(summary.totalEstimated)}</span>
+            <HomePrice amount={summary.totalEstimated} />
+          </div>
+          <div className={`p-4 rounded-2xl border ${summary.totalSavings >= 0 ? 'bg-emerald-50/60 border-emerald-100' : 'bg-rose-50/60 border-rose-100'}`}>
+            <span className="text-[8px] font-black text-teal-600 uppercase tracking-[0.2em] block">{summary.totalSavings >= 0 ? 'Saved' : 'Overpaid'}</span>
+            <span className={`text-base md:text-lg font-black ${summary.totalSavings >= 0 ? 'text-emerald-700' : 'text-rose-700'}`}>{formatPKR(Math.abs(summary.totalSavings))}</span>
+            <HomePrice amount={Math.abs(summary.totalSavings)} />
+          </div>
+        </div>
+      )}
+
+      {scans.length > 0 && (
+        <div className="mb-8">
+          <span className="text-[9px] font-black text-teal-600 uppercase tracking-[0.2em] block mb-3">Recent Scans</span>
+          <div className="flex gap-3 overflow-x-auto pb-2 custom-scrollbar">
+            {scans.slice(0, 20).map(scan => (
+              <button key={scan.id} onClick={() => onOpenScan(scan.id)} className="shrink-0 w-24 text-left group">
+                <img src={scan.thumbnail} alt={scan.result.objectName} className="w-24 h-24 rounded-2xl object-cover border border-teal-100 shadow-sm group-hover:scale-105 transition-transform" />
+                <span className="block text-[10px] font-bold text-teal-900 mt-1.5 truncate">{scan.result.objectName}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {transcripts.length > 0 && (
+        <div className="mb-8">
+          <span className="text-[9px] font-black text-teal-600 uppercase tracking-[0.2em] block mb-3">Bridge Conversations</span>
+          <div className="space-y-2 max-h-48 overflow-y-auto pr-3 custom-scrollbar">
+            {transcripts.map(transcript => (
+              <button key={transcript.id} onClick={() => onOpenTranscript(transcript.id)} className="w-full px-5 py-3 rounded-2xl border border-teal-50 bg-teal-50/20 flex items-center justify-between gap-4 text-left hover:bg-teal-50/50 transition-all">
+                <div className="min-w-0">
+                  <h3 className="text-sm font-black text-teal-900 truncate">{transcript.objectName}</h3>
+                  <p className="text-[10px] font-bold text-teal-400 uppercase tracking-widest">
+                    {new Date(transcript.timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })} &bull; {LANGUAGE_LABELS[transcript.sellerLanguage]}
+                  </p>
+                </div>
+                <span className="text-[9px] font-black text-amber-600 uppercase tracking-widest shrink-0">{transcript.messages.length} lines</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="mb-6 space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="search"
+              aria-label="Search log"
+              value={filters.query}
+              onChange={e => updateFilter({ query: e.target.value })}
+              placeholder="Search items, shops, notes…"
+              className={`${inputClass} flex-1`}
+            />
+            <select aria-label="Sort by" value={sort} onChange={e => setSort(e.target.value as HistorySort)} className={`${inputClass} w-auto`}>
+              {HISTORY_SORTS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              aria-expanded={showFilters}
+              className={`px-4 rounded-xl font-black text-[9px] uppercase tracking-widest border transition-all ${showFilters || filtered ? 'bg-amber-100 text-amber-700 border-amber-200' : 'bg-white text-teal-400 border-teal-100'}`}
+            >
+              Filters
+            </button>
+          </div>
+
+          {showFilters && (
+            <div className="p-4 rounded-2xl bg-teal-50/40 border border-teal-100 grid grid-cols-2 gap-3 animate-in fade-in">
+              <label>
+                <span className={labelClass}>From</span>
+                <input type="date" aria-label="From date" value={filters.from ?? ''} onChange={e => updateFilter({ from: e.target.value || undefined })} className={inputClass} />
+              </label>
+              <label>
+                <span className={labelClass}>To</span>
+                <input type="date" aria-label="To date" value={filters.to ?? ''} onChange={e => updateFilter({ to: e.target.value || undefined })} className={inputClass} />
+              </label>
+              <label className="col-span-2">
+                <span className={labelClass}>Bazaar</span>
+                <select value={filters.place ?? ''} onChange={e => updateFilter({ place: e.target.value || undefined })} className={inputClass}>
+                  <option value="">Anywhere</option>
+                  {places.map(place => <option key={place.key} value={place.key}>{place.label}</option>)}
+                </select>
+              </label>
+              <label>
+                <span className={labelClass}>Min Price (PKR)</span>
+                <input type="number" inputMode="numeric" min="0" value={minPrice} onChange={e => setMinPrice(e.target.value)} className={inputClass} />
+              </label>
+              <label>
+                <span className={labelClass}>Max Price (PKR)</span>
+                <input type="number" inputMode="numeric" min="0" value={maxPrice} onChange={e => setMaxPrice(e.target.value)} className={inputClass} />
+              </label>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-3 px-2">
+            <label className="flex items-center gap-2 text-[9px] font-black text-teal-600 uppercase tracking-widest">
+              <input type="checkbox" checked={allSelected} onChange={() => setSelected(allSelected ? new Set() : new Set(visible.map(item => item.id)))} className="accent-teal-700" />
+              Select all
+            </label>
+            <span className="text-[9px] font-bold text-teal-900/40 uppercase tracking-widest">
+              {filtered ? `${visible.length} of ${history.length} entries` : `${history.length} ${history.length === 1 ? 'entry' : 'entries'}`}
+              {filtered && <button onClick={clearFilters} className="ml-3 font-black text-teal-600">Clear</button>}
+            </span>
+          </div>
+
+          {selectedItems.length > 0 && (
+            <div role="toolbar" aria-label="Selected entries" className="flex items-center gap-2 p-3 rounded-2xl bg-teal-900 text-white animate-in fade-in">
+              <span className="text-[10px] font-black uppercase tracking-widest px-2 shrink-0">{selectedItems.length} selected</span>
+              <select aria-label="Move selected to bazaar" value="" onChange={e => handleMoveSelected(e.target.value)} className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-teal-800 text-[10px] font-bold outline-none">
+                <option value="">Move to bazaar…</option>
+                <BazaarOptions />
+              </select>
+              <button onClick={() => handleDelete(selectedItems)} className="px-4 py-2 rounded-xl bg-rose-500 font-black text-[9px] uppercase tracking-widest shrink-0">Delete</button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {history.length === 0 ? (
+        <div className="text-center py-24 px-10">
+           <p className="text-teal-900/30 text-sm font-bold uppercase tracking-widest mb-4">No records found</p>
+           <p className="text-teal-900/50 text-xs italic">Capture items in the market to build your catalog.</p>
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="text-center py-16 px-10">
+           <p className="text-teal-900/30 text-sm font-bold uppercase tracking-widest mb-4">No entries match</p>
+           <button onClick={clearFilters} className="text-[10px] font-black text-teal-600 uppercase tracking-widest">Clear Filters</button>
+        </div>
+      ) : (
+        <div className="space-y-4 max-h-[50vh] overflow-y-auto pr-3 custom-scrollbar">
+          {visible.map((item) => {
+            if (item.id === editingId) {
+              return (
+                <EntryEditor
+                  key={item.id}
+                  item={item}
+                  onSave={updated => { onUpdateItems([updated]); setEditingId(null); }}
+                  onCancel={() => setEditingId(null)}
+                />
+              );
+            }
+
+            const savings = dealSavings(item);
+            const thumbnail = item.scanId ? thumbnails.get(item.scanId) : undefined;
+            const shop = item.shopId ? getDirectoryShop(item.shopId) : item.shopName ? findDirectoryShop(item.shopName, item.market ? [item.market.city] : undefined) : null;
+            return (
+              <div
+                key={item.id}
+                onClick={item.scanId ? () => onOpenScan(item.scanId!) : undefined}
+                className={`p-6 rounded-[2rem] border flex justify-between items-center gap-4 transition-all hover:bg-teal-50/50 group ${selected.has(item.id) ? 'border-teal-300 bg-teal-50/60' : 'border-teal-50 bg-teal-50/20'} ${item.scanId ? 'cursor-pointer' : ''}`}
+              >
+                <div className="flex items-center gap-5 min-w-0">
+                  <input
+                    type="checkbox"
+                    aria-label={`Select ${item.objectName}`}
+                    checked={selected.has(item.id)}
+                    onChange={() => toggleSelected(item.id)}
+                    onClick={e => e.stopPropagation()}
+                    className="shrink-0 accent-teal-700"
+                  />
+                  {thumbnail ? (
+                    <img src={thumbnail} alt={item.objectName} className="w-12 h-12 shrink-0 rounded-2xl object-cover border border-teal-100 shadow-sm group-hover:scale-110 transition-transform" />
+                  ) : (
+                    <div className="w-12 h-12 shrink-0 rounded-2xl bg-white border border-teal-100 flex items-center justify-center text-teal-800 shadow-sm group-hover:scale-110 transition-transform">
+                       <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-6h2v6zm0-8h-2V7h2v2z"/></svg>
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <h3 className="text-base font-black text-teal-900 truncate">{item.objectName}</h3>
+                    <p className="text-[10px] font-bold text-teal-400 mt-0.5 uppercase tracking-widest">
+                      {new Date(item.timestamp).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                      {item.market && <> &bull; {describeMarket(item.market)}</>}
+                    </p>
+                    {(item.shopName || item.notes) && (
+                      <p className="text-[10px] font-semibold text-teal-900/50 mt-1 truncate">
+                        {shop ? (
+                          <button onClick={e => { e.stopPropagation(); onOpenShop(shop.id); }} className="font-black text-teal-600 underline decoration-dotted underline-offset-2">{item.shopName ?? shop.name}</button>
+                        ) : item.shopName}
+                        {item.shopName && item.notes && ' — '}{item.notes && <span className="italic">{item.notes}</span>}
+                      </p>
+                    )}
+                    <div className="flex gap-3 mt-1.5">
+                      <button
+                        onClick={e => { e.stopPropagation(); setEditingId(item.id); }}
+                        aria-label={`Edit ${item.objectName}`}
+                        className="text-[9px] font-black uppercase tracking-widest text-teal-500 hover:text-teal-700"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={e => { e.stopPropagation(); handleDelete([item]); }}
+                        aria-label={`Delete ${item.objectName}`}
+                        className="text-[9px] font-black uppercase tracking-widest text-rose-400 hover:text-rose-600"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </div>
+                <div className="text-right shrink-0">
+                  {item.paidPKR !== undefined ? (
+                    <>
+                      <div className="text-amber-600 text-lg font-black">{formatPKR(item.paidPKR)}</div>
+                      <HomePrice amount={item.paidPKR} />
+                      {item.quantity !== undefined && item.price && (
+                        <div className="text-[9px] font-bold text-teal-900/40 uppercase tracking-widest">{item.quantity} {formatUnit(item.price.unit)}</div>
+                      )}
+                      {savings !== null && <SavingsBadge savings={savings} />}
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-amber-600 text-lg font-black">{item.price ? formatPriceRange(item.price) : item.legacyPriceText ?? '—'}</div>
+                      {item.price && <HomePrice amount={item.price} />}
+                    </>
+                  )}
+                  {item.price && (
+                    <button
+                      onClick={e => { e.stopPropagation(); onOpenTrend(itemKey(item.objectName)); }}
+                      aria-label={`Price history for ${item.objectName}`}
+                      className="block ml-auto mt-1 text-[9px] font-black uppercase tracking-widest text-teal-500 hover:text-teal-700"
+                    >
+                      Trend &rarr;
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {deleted && (
+        <div role="status" className="mt-6 flex items-center justify-between gap-4 p-4 rounded-2xl bg-teal-900 text-white animate-in slide-in-from-bottom-2">
+          <span className="text-xs font-bold">{deleted.length === 1 ? `Deleted ${deleted[0].objectName}` : `Deleted ${deleted.length} entries`}</span>
+          <button onClick={handleUndo} className="px-4 py-2 rounded-xl bg-amber-500 font-black text-[9px] uppercase tracking-widest">Undo</button>
+        </div>
+      )}
+
+      <button onClick={onClose} className="w-full mt-10 py-6 bg-teal-900 text-white rounded-3xl font-black text-xs uppercase tracking-[0.4em] btn-elegant shadow-2xl shadow-teal-900/20">Resume Discovery</button>
+    </div>
+  );
+};
+
+export default AcquisitionLog;
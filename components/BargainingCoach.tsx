@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult, CityProfile } from '../types.ts';
+import { BARGAIN_PHRASES, CounterSuggestion, buildBargainPlan, getPhrase, suggestCounter } from '../services/bargaining.ts';
+import { formatPKR, formatUnit } from '../services/pricing.ts';
+import HomePrice from './HomePrice.tsx';
+
+type PhraseLanguage = 'urdu' | 'pashto';
+
+interface BargainingCoachProps {
+  result: AnalysisResult;
+  profile: CityProfile;
+  /** Key of the clip currently playing, so the matching button can light up. */
+  activeVoice: string | null;
+  onPlay: (text: string, language: PhraseLanguage, voiceKey: string) => void;
+}
+
+const ACTION_STYLES: Record<CounterSuggestion['action'], string> = {
+  accept: 'bg-emerald-50 border-emerald-100 text-emerald-800',
+  counter: 'bg-amber-50 border-amber-100 text-amber-800',
+  walk: 'bg-rose-50 border-rose-100 text-rose-800',
+};
+
+const BargainingCoach: React.FC<BargainingCoachProps> = ({ result, profile, activeVoice, onPlay }) => {
+  const plan = useMemo(
+    () => buildBargainPlan(result.price, result.objectName, profile, result.market, result.description),
+    [result, profile]
+  );
+  const [language, setLanguage] = useState<PhraseLanguage>(profile.sellerLanguages.includes('pashto') ? 'pashto' : 'urdu');
+  const [asking, setAsking] = useState('');
+  const [round, setRound] = useState(0);
+  const [lastOffer, setLastOffer] = useState<number | undefined>(undefined);
+  const [suggestion, setSuggestion] = useState<CounterSuggestion | null>(null);
+
+  const handleSuggest = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(asking.replace(/[^\d.]/g, ''));
+    if (!amount) return;
+    const next = suggestCounter(plan, amount, lastOffer, round);
+    setSuggestion(next);
+    setLastOffer(next.offer);
+    setRound(r => r + 1);
+    setAsking('');
+  };
+
+  const resetRounds = () => {
+    setRound(0);
+    setLastOffer(undefined);
+    setSuggestion(null);
+  };
+
+  const suggestedPhrase = suggestion ? getPhrase(suggestion.phraseId) : undefined;
+  const unit = formatUnit(result.price.unit);
+
+  return (
+    <div className="bg-amber-50/30 border border-amber-100/60 rounded-[2rem] p-5 md:p-7 mb-8">
+      <div className="flex items-center justify-between mb-5">
+        <span className="text-[10px] font-black text-amber-700 uppercase tracking-[0.3em]">Bargaining Coach</span>
+        <div className="flex bg-white p-1 rounded-xl border border-amber-100">
+          {(['urdu', 'pashto'] as PhraseLanguage[]).map(lang => (
+            <button key={lang} onClick={() => setLanguage(lang)} className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${language === lang ? 'bg-amber-500 text-white shadow-sm' : 'text-amber-700/50'}`}>{lang}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-5">
+        <div className="p-3 rounded-2xl bg-white border border-amber-100">
+          <span className="text-[8px] font-black text-amber-600 uppercase tracking-[0.2em] block">Open At</span>
+          <span className="text-base md:text-lg font-black text-teal-900">{formatPKR(plan.opening)}</span>
+          <HomePrice amount={plan.opening} />
+        </div>
+        <div className="p-3 rounded-2xl bg-white border border-emerald-100">
+          <span className="text-[8px] font-black text-emerald-600 uppercase tracking-[0.2em] block">Target</span>
+          <span className="text-base md:text-lg font-black text-emerald-800">{formatPKR(plan.target)}</span>
+          <HomePrice amount={plan.target} />
+        </div>
+        <div className="p-3 rounded-2xl bg-white border border-rose-100">
+          <span className="text-[8px] font-black text-rose-500 uppercase tracking-[0.2em] block">Walk Away</span>
+          <span className="text-base md:text-lg font-black text-rose-700">{formatPKR(plan.walkAway)}</span>
+          <HomePrice amount={plan.walkAway} />
+        </div>
+      </div>
+      <p className="text-[9px] font-bold text-teal-900/40 uppercase tracking-widest mb-5">Prices per {unit}</p>
+
+      <ul className="space-y-2 mb-6">
+        {plan.tips.map(tip => (
+          <li key={tip} className="text-xs text-teal-900/70 font-medium leading-relaxed pl-4 relative before:content-[''] before:absolute before:left-0 before:top-1.5 before:w-1.5 before:h-1.5 before:rounded-full before:bg-amber-400">{tip}</li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleSuggest} className="flex gap-2 mb-3">
+        <input
+          type="text"
+          inputMode="numeric"
+          value={asking}
+          onChange={e => setAsking(e.target.value)}
+          placeholder={round === 0 ? "Seller's asking price (Rs.)" : "Seller's new price (Rs.)"}
+          className="flex-1 px-4 py-3 rounded-xl border border-amber-100 bg-white text-sm font-bold text-teal-900 placeholder:text-teal-900/30 focus:outline-none focus:ring-2 focus:ring-amber-200"
+        />
+        <button type="submit" className="px-5 py-3 rounded-xl bg-amber-500 text-white font-black text-[10px] uppercase tracking-widest btn-elegant">Suggest</button>
+      </form>
+
+      {suggestion && (
+        <div className={`p-4 rounded-2xl border mb-6 ${ACTION_STYLES[suggestion.action]}`}>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[9px] font-black uppercase tracking-widest">Round {round} &bull; {suggestion.action}</span>
+            <button onClick={resetRounds} className="text-[9px] font-black uppercase tracking-widest opacity-60 hover:opacity-100">Start Over</button>
+          </div>
+          <p className="text-sm font-semibold">{suggestion.message}</p>
+          <HomePrice amount={suggestion.offer} className="block text-[10px] font-bold opacity-60 mt-0.5" />
+          {suggestedPhrase && (
+            <p className="text-xs mt-2">
+              Say: <span className="font-bold italic">{suggestedPhrase[language].phonetic}</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {BARGAIN_PHRASES.map(phrase => {
+          const line = phrase[language];
+          const voiceKey = `phrase:${phrase.id}:${language}`;
+          const highlighted = suggestion?.phraseId === phrase.id;
+          return (
+            <div key={phrase.id} className={`flex items-center justify-between gap-3 p-3 rounded-2xl border transition-all ${highlighted ? 'bg-white border-amber-300 shadow-md' : 'bg-white/60 border-amber-50'}`}>
+              <div className="min-w-0">
+                <div className="text-[10px] font-bold text-teal-900/50">{phrase.english}</div>
+                <div className="text-lg font-bold text-teal-900" dir="rtl">{line.text}</div>
+                <div className="text-[10px] font-semibold text-teal-900/40 italic">{line.phonetic}</div>
+              </div>
+              <button onClick={() => onPlay(line.text, language, voiceKey)} className={`p-3 rounded-xl shrink-0 btn-elegant ${activeVoice === voiceKey ? 'bg-amber-500 text-white shadow-lg' : 'bg-white text-amber-500 border border-amber-100 shadow-sm'}`}>
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BargainingCoach;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import CameraView from './CameraView.tsx';
+
+function fakeStream(capabilities: Record<string, unknown> = {}, settings: Record<string, unknown> = { deviceId: 'back' }) {
+  const track = {
+    stop: vi.fn(),
+    getCapabilities: () => capabilities,
+    getSettings: () => settings,
+    applyConstraints: vi.fn(async () => {}),
+  };
+  return { track, stream: { getTracks: () => [track], getVideoTracks: () => [track] } as unknown as MediaStream };
+}
+
+const getUserMedia = vi.fn();
+const enumerateDevices = vi.fn();
+
+beforeEach(() => {
+  getUserMedia.mockReset();
+  enumerateDevices.mockReset().mockResolvedValue([]);
+  Object.defineProperty(navigator, 'mediaDevices', { configurable: true, value: { getUserMedia, enumerateDevices } });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('CameraView', () => {
+  it('stops the live stream on unmount', async () => {
+    const { track, stream } = fakeStream();
+    getUserMedia.mockResolvedValue(stream);
+    const { unmount } = render(<CameraView onCapture={vi.fn()} isLoading={false} />);
+    await act(async () => {});
+
+    unmount();
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it('stops a stream that arrives after unmount', async () => {
+    const { track, stream } = fakeStream();
+    let resolve!: (s: MediaStream) => void;
+    getUserMedia.mockReturnValue(new Promise(r => { resolve = r; }));
+    const { unmount } = render(<CameraView onCapture={vi.fn()} isLoading={false} />);
+
+    unmount();
+    await act(async () => resolve(stream));
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it('switches lenses, stopping the old stream, and offers torch and zoom when supported', async () => {
+    const back = fakeStream({ torch: true, zoom: { min: 1, max: 4, step: 0.1 } });
+    const front = fakeStream();
+    getUserMedia.mockResolvedValueOnce(back.stream).mockResolvedValueOnce(front.stream);
+    enumerateDevices.mockResolvedValue([
+      { kind: 'videoinput', deviceId: 'back' },
+      { kind: 'videoinput', deviceId: 'front' },
+      { kind: 'audioinput', deviceId: 'mic' },
+    ]);
+    render(<CameraView onCapture={vi.fn()} isLoading={false} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Torch' }));
+    expect(back.track.applyConstraints).toHaveBeenCalledWith({ advanced: [{ torch: true }] });
+    fireEvent.change(screen.getByLabelText('Zoom'), { target: { value: '2.5' } });
+    expect(back.track.applyConstraints).toHaveBeenCalledWith({ advanced: [{ zoom: 2.5 }] });
+
+    await act(async () => fireEvent.click(screen.getByRole('button', { name: 'Switch camera' })));
+    expect(back.track.stop).toHaveBeenCalled();
+    expect(getUserMedia).toHaveBeenLastCalledWith(expect.objectContaining({
+      video: expect.objectContaining({ deviceId: { exact: 'front' } }),
+    }));
+    expect(screen.queryByRole('button', { name: 'Torch' })).not.toBeInTheDocument();
+  });
+
+  it('focuses where the mirrored front camera preview was tapped', async () => {
+    const front = fakeStream({ pointsOfInterest: [] }, { deviceId: 'front', facingMode: 'user' });
+    getUserMedia.mockResolvedValue(front.stream);
+    const { container } = render(<CameraView onCapture={vi.fn()} isLoading={false} />);
+    await act(async () => {});
+
+    const video = container.querySelector('video')!;
+    Object.defineProperties(video, { videoWidth: { value: 640 }, videoHeight: { value: 480 } });
+    video.getBoundingClientRect = () => ({ left: 0, top: 0, width: 640, height: 480 }) as DOMRect;
+    fireEvent.click(video, { clientX: 160, clientY: 240 });
+
+    // A tap on the left of a mirrored preview is the right of the frame.
+    expect(front.track.applyConstraints).toHaveBeenCalledWith({ advanced: [{ pointsOfInterest: [{ x: 0.75, y: 0.5 }] }] });
+  });
+
+  it('explains a blocked camera and still offers the gallery', async () => {
+    getUserMedia.mockRejectedValue(Object.assign(new Error('denied'), { name: 'NotAllowedError' }));
+    render(<CameraView onCapture={vi.fn()} isLoading={false} />);
+
+    expect(await screen.findByText('Camera Blocked')).toBeInTheDocument();
+    expect(screen.getByText('Grant Permission')).toBeInTheDocument();
+    expect(screen.getByText('Choose Photo')).toBeInTheDocument();
+  });
+});
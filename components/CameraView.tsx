@@ -1,39 +1,253 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { BazaarError, PermissionError, classifyError } from '../services/errors.ts';
+import { loadImageFile } from '../services/image.ts';
+import { QUALITY_ADVICE, QualityIssue, checkImageQuality } from '../services/imageQuality.ts';
+import {
+  CameraCapabilities,
+  captureRegion,
+  coverMapping,
+  focusAt,
+  listCameras,
+  pinchZoom,
+  readCapabilities,
+  setTorch,
+  setZoom,
+} from '../services/cameraControls.ts';
+import { errorCopy } from './ErrorView.tsx';
 
 interface CameraViewProps {
   onCapture: (base64: string) => void;
   isLoading: boolean;
 }
 
+const controlClass = 'w-11 h-11 rounded-2xl bg-black/30 backdrop-blur-md border border-white/30 text-white flex items-center justify-center transition-all active:scale-90';
+
 const CameraView: React.FC<CameraViewProps> = ({ onCapture, isLoading }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [stream, setStream] = useState<MediaStream | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  // The live stream sits in a ref so cleanup always stops the current one, not the one from the first render.
+  const streamRef = useRef<MediaStream | null>(null);
+  /** Bumped on every start and on unmount; a getUserMedia that resolves late for an older start is discarded. */
+  const startIdRef = useRef(0);
+  const [track, setTrack] = useState<MediaStreamTrack | null>(null);
+  const [capabilities, setCapabilities] = useState<CameraCapabilities>({ torch: false, focus: false });
+  const [zoom, setZoomLevel] = useState(1);
+  const [torchOn, setTorchOn] = useState(false);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
+  const [detailMode, setDetailMode] = useState(false);
+  const [focusPoint, setFocusPoint] = useState<{ x: number; y: number } | null>(null);
+  const [detailBox, setDetailBox] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+  const [error, setError] = useState<BazaarError | null>(null);
   const [isFlashActive, setIsFlashActive] = useState(false);
   const [coolDown, setCoolDown] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  /** A frame that failed the quality checks, held until the user retakes or sends it anyway. */
+  const [flagged, setFlagged] = useState<{ base64: string; issues: QualityIssue[] } | null>(null);
+
+  const stopStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+  }, []);
 
   const startCamera = useCallback(async () => {
+    const startId = ++startIdRef.current;
     setError(null);
+    stopStream();
     try {
       const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } },
+        // Ask for more than we send: detail captures crop the centre at native resolution.
+        video: { ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode }), width: { ideal: 1920 }, height: { ideal: 1080 } },
         audio: false,
       });
-      setStream(mediaStream);
+      if (startId !== startIdRef.current) {
+        mediaStream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      streamRef.current = mediaStream;
       if (videoRef.current) videoRef.current.srcObject = mediaStream;
-    } catch (err: any) {
-      setError('Could not access camera.');
+
+      const videoTrack = mediaStream.getVideoTracks()[0];
+      const caps = readCapabilities(videoTrack);
+      setTrack(videoTrack);
+      setCapabilities(caps);
+      setZoomLevel((videoTrack.getSettings() as { zoom?: number }).zoom ?? caps.zoom?.min ?? 1);
+      setTorchOn(false);
+      listCameras().then(setCameras).catch(() => setCameras([]));
+    } catch (err) {
+      if (startId === startIdRef.current) setError(classifyError(err, 'camera'));
     }
-  }, []);
+  }, [deviceId, facingMode, stopStream]);
 
   useEffect(() => {
     startCamera();
-    return () => stream?.getTracks().forEach(track => track.stop());
-  }, [startCamera]);
+    return () => {
+      startIdRef.current++;
+      stopStream();
+    };
+  }, [startCamera, stopStream]);
+
+  // The video element is remounted after an error screen; hand it the live stream again.
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== streamRef.current) videoRef.current.srcObject = streamRef.current;
+  }, [track, error]);
+
+  const updateDetailBox = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const { width, height } = video.getBoundingClientRect();
+    setDetailBox(coverMapping(width, height, video.videoWidth, video.videoHeight).detailBox);
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener('resize', updateDetailBox);
+    return () => window.removeEventListener('resize', updateDetailBox);
+  }, [updateDetailBox]);
+
+  const applyZoom = (value: number) => {
+    setZoomLevel(value);
+    if (track) setZoom(track, value).catch(e => console.warn("Zoom failed", e));
+  };
+
+  const toggleTorch = () => {
+    if (!track) return;
+    const next = !torchOn;
+    setTorch(track, next).then(() => setTorchOn(next)).catch(e => console.warn("Torch failed", e));
+  };
+
+  /** Next lens in device order when the cameras are known, otherwise flip between back and front. */
+  const switchCamera = () => {
+    const currentId = track?.getSettings().deviceId;
+    const ids = cameras.map(c => c.deviceId).filter(Boolean);
+    if (ids.length > 1) {
+      setDeviceId(ids[(ids.indexOf(currentId ?? '') + 1) % ids.length]);
+    } else {
+      setDeviceId(null);
+      setFacingMode(mode => (mode === 'environment' ? 'user' : 'environment'));
+    }
+  };
+
+  const mirrored = track?.getSettings().facingMode === 'user';
+
+  const handleTapFocus = (e: React.MouseEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    if (!track || !capabilities.focus || !video.videoWidth) return;
+    const rect = video.getBoundingClientRect();
+    const point = coverMapping(rect.width, rect.height, video.videoWidth, video.videoHeight).toFrame(e.clientX - rect.left, e.clientY - rect.top);
+    // The front camera preview is mirrored, so the frame's x runs the other way.
+    if (mirrored) point.x = 1 - point.x;
+    setFocusPoint({ x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height });
+    setTimeout(() => setFocusPoint(null), 900);
+    focusAt(track, point.x, point.y).catch(err => console.warn("Focus failed", err));
+  };
+
+  const pointerSpread = () => {
+    const [a, b] = Array.from(pointersRef.current.values()) as { x: number; y: number }[];
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const endPointer = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) pinchRef.current = null;
+  };
+
+  const pinchHandlers = {
+    onPointerDown: (e: React.PointerEvent) => {
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointersRef.current.size === 2) {
+        pinchRef.current = { distance: pointerSpread(), zoom };
+      }
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (!pointersRef.current.has(e.pointerId)) return;
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pinchRef.current && capabilities.zoom && pointersRef.current.size === 2) {
+        const next = pinchZoom(pinchRef.current.zoom, pinchRef.current.distance, pointerSpread(), capabilities.zoom);
+        if (next !== zoom) applyZoom(next);
+      }
+    },
+    onPointerUp: endPointer,
+    onPointerCancel: endPointer,
+  };
+
+  /** Runs the local quality checks and only sends frames that pass. */
+  const submit = useCallback(async (base64: string) => {
+    setIsChecking(true);
+    const issues = await checkImageQuality(base64);
+    setIsChecking(false);
+    if (issues.length > 0) setFlagged({ base64, issues });
+    else onCapture(base64);
+  }, [onCapture]);
+
+  const handleFiles = useCallback(async (files: FileList | null) => {
+    const file = Array.from(files ?? []).find(f => f.type.startsWith('image/'));
+    if (!file || isLoading) return;
+    setUploadError(null);
+    try {
+      await submit(await loadImageFile(file));
+    } catch (err) {
+      setIsChecking(false);
+      setUploadError(err instanceof Error ? err.message : 'Could not read that photo.');
+    }
+  }, [submit, isLoading]);
+
+  const dropHandlers = {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDragging(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      handleFiles(e.dataTransfer.files);
+    },
+  };
+
+  const fileInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      accept="image/*"
+      aria-label="Upload photo"
+      className="hidden"
+      onChange={e => { handleFiles(e.target.files); e.target.value = ''; }}
+    />
+  );
+
+  const dropOverlay = isDragging && (
+    <div className="absolute inset-0 z-[60] bg-teal-900/70 backdrop-blur-sm border-4 border-dashed border-amber-400 rounded-[2rem] flex items-center justify-center pointer-events-none">
+      <p className="text-white font-black uppercase tracking-[0.3em] text-[10px]">Drop Photo to Analyze</p>
+    </div>
+  );
+
+  const qualityWarning = flagged && (
+    <div className="absolute inset-0 z-[55] bg-teal-950/80 backdrop-blur-md flex flex-col items-center justify-center p-8 text-center">
+      <img src={`data:image/jpeg;base64,${flagged.base64}`} alt="Flagged capture" className="w-24 h-24 rounded-2xl object-cover border-2 border-white/40 mb-5" />
+      {flagged.issues.map(issue => (
+        <div key={issue} className="mb-3">
+          <p className="text-amber-400 font-black uppercase tracking-widest text-[11px]">{QUALITY_ADVICE[issue].label}</p>
+          <p className="text-white/70 text-xs max-w-xs">{QUALITY_ADVICE[issue].tip}</p>
+        </div>
+      ))}
+      <div className="flex gap-3 mt-4">
+        <button onClick={() => setFlagged(null)} className="bg-amber-500 text-white px-6 py-3 rounded-2xl font-black uppercase tracking-widest text-[10px]">Retake</button>
+        <button onClick={() => { onCapture(flagged.base64); setFlagged(null); }} className="bg-white/10 text-white px-6 py-3 rounded-2xl font-black uppercase tracking-widest text-[10px] border border-white/20">Use Anyway</button>
+      </div>
+    </div>
+  );
 
   const handleCapture = useCallback(() => {
-    if (coolDown || isLoading) return;
+    if (coolDown || isLoading || isChecking) return;
     if (videoRef.current && canvasRef.current) {
       const video = videoRef.current;
       const canvas = canvasRef.current;
@@ -44,38 +258,122 @@ const CameraView: React.FC<CameraViewProps> = ({ onCapture, isLoading }) => {
         setCoolDown(true);
         setTimeout(() => setCoolDown(false), 1500);
 
-        const targetWidth = 1024;
-        const scale = targetWidth / video.videoWidth;
-        canvas.width = targetWidth;
-        canvas.height = video.videoHeight * scale;
-        context.drawImage(video, 0, 0, canvas.width, canvas.height);
-        onCapture(canvas.toDataURL('image/jpeg', 0.8).split(',')[1]);
+        const region = captureRegion(video.videoWidth, video.videoHeight, detailMode);
+        canvas.width = region.width;
+        canvas.height = region.height;
+        context.drawImage(video, region.sx, region.sy, region.sw, region.sh, 0, 0, region.width, region.height);
+        submit(canvas.toDataURL('image/jpeg', detailMode ? 0.9 : 0.8).split(',')[1]);
       }
     }
-  }, [onCapture, coolDown, isLoading]);
+  }, [submit, coolDown, isLoading, isChecking, detailMode]);
 
   if (error) {
     return (
-      <div className="h-80 bg-white border-2 border-teal-100 rounded-[2.5rem] flex flex-col items-center justify-center p-8 text-center shadow-xl">
-        <p className="text-teal-900/40 text-xs mb-6">{error}</p>
-        <button onClick={startCamera} className="bg-teal-800 text-white px-8 py-3 rounded-2xl font-black uppercase tracking-widest text-[10px]">Retry</button>
+      <div {...dropHandlers} className="relative h-80 bg-white border-2 border-teal-100 rounded-[2.5rem] flex flex-col items-center justify-center p-8 text-center shadow-xl overflow-hidden">
+        {fileInput}
+        {isLoading || isChecking ? (
+          <>
+            <div className="w-12 h-12 border-4 border-teal-100 border-t-amber-500 rounded-full animate-spin mb-6"></div>
+            <p className="text-teal-900/60 font-black uppercase tracking-[0.3em] text-[10px]">{isLoading ? 'Consulting Experts...' : 'Checking Photo...'}</p>
+          </>
+        ) : (
+          <>
+            <h3 className="text-teal-950 font-black text-lg tracking-tight mb-2">{errorCopy(error).title}</h3>
+            <p className="text-teal-900/50 text-xs mb-6 max-w-xs leading-relaxed">{errorCopy(error).detail}</p>
+            {uploadError && <p className="text-rose-500 text-xs font-semibold mb-4">{uploadError}</p>}
+            <div className="flex gap-3">
+              <button onClick={startCamera} className="bg-teal-800 text-white px-8 py-3 rounded-2xl font-black uppercase tracking-widest text-[10px]">{error.kind === 'permission' && !(error as PermissionError).unavailable ? 'Grant Permission' : 'Retry'}</button>
+              <button onClick={() => fileInputRef.current?.click()} className="bg-amber-100 text-amber-700 px-6 py-3 rounded-2xl font-black uppercase tracking-widest text-[10px]">Choose Photo</button>
+            </div>
+          </>
+        )}
+        {qualityWarning}
+        {dropOverlay}
       </div>
     );
   }
 
   return (
-    <div className="relative w-full aspect-square md:aspect-video bg-black rounded-[2.5rem] overflow-hidden shadow-2xl border-[8px] border-white/50">
-      <video ref={videoRef} autoPlay playsInline muted className={`w-full h-full object-cover transition-all duration-700 ${isLoading ? 'blur-xl' : ''}`} />
+    <div {...dropHandlers} {...pinchHandlers} className="relative w-full aspect-square md:aspect-video bg-black rounded-[2.5rem] overflow-hidden shadow-2xl border-[8px] border-white/50 touch-none">
+      {fileInput}
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        onClick={handleTapFocus}
+        onLoadedMetadata={updateDetailBox}
+        className={`w-full h-full object-cover transition-all duration-700 ${isLoading ? 'blur-xl' : ''} ${mirrored ? '-scale-x-100' : ''}`}
+      />
       <canvas ref={canvasRef} className="hidden" />
       <div className={`absolute inset-0 bg-white transition-opacity duration-150 z-30 pointer-events-none ${isFlashActive ? 'opacity-100' : 'opacity-0'}`}></div>
 
-      {isLoading ? (
+      {detailMode && detailBox && (
+        <div
+          className="absolute z-20 pointer-events-none border-2 border-amber-400 rounded-2xl shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"
+          style={{ left: `${detailBox.left}%`, top: `${detailBox.top}%`, width: `${detailBox.width}%`, height: `${detailBox.height}%` }}
+        />
+      )}
+
+      {focusPoint && (
+        <div
+          className="absolute z-20 w-16 h-16 -ml-8 -mt-8 border-2 border-amber-400 rounded-full pointer-events-none animate-ping"
+          style={{ left: `${focusPoint.x * 100}%`, top: `${focusPoint.y * 100}%` }}
+        />
+      )}
+
+      {!isLoading && !flagged && (
+        <div className="absolute top-5 right-5 z-50 flex flex-col gap-2">
+          {capabilities.torch && (
+            <button aria-label="Torch" aria-pressed={torchOn} onClick={toggleTorch} className={`${controlClass} ${torchOn ? '!bg-amber-500 !border-amber-400' : ''}`}>
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+            </button>
+          )}
+          {cameras.length !== 1 && (
+            <button aria-label="Switch camera" onClick={switchCamera} className={controlClass}>
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+            </button>
+          )}
+          <button aria-label="Detail mode" aria-pressed={detailMode} onClick={() => { setDetailMode(d => !d); updateDetailBox(); }} className={`${controlClass} text-[9px] font-black ${detailMode ? '!bg-amber-500 !border-amber-400' : ''}`}>
+            1:1
+          </button>
+        </div>
+      )}
+
+      {detailMode && !isLoading && !flagged && (
+        <p className="absolute top-6 left-0 right-0 z-40 text-center text-white font-black uppercase tracking-[0.3em] text-[9px] pointer-events-none">Detail &bull; Fill the box</p>
+      )}
+
+      {capabilities.zoom && !isLoading && !flagged && (
+        <div className="absolute bottom-36 left-10 right-10 z-50 flex items-center gap-3">
+          <input
+            type="range"
+            aria-label="Zoom"
+            min={capabilities.zoom.min}
+            max={capabilities.zoom.max}
+            step={capabilities.zoom.step}
+            value={zoom}
+            onChange={e => applyZoom(Number(e.target.value))}
+            className="flex-1 accent-amber-500"
+          />
+          <span className="text-white text-[10px] font-black w-10 text-right">{zoom.toFixed(1)}x</span>
+        </div>
+      )}
+
+      {isLoading || isChecking ? (
         <div className="absolute inset-0 bg-teal-900/40 flex flex-col items-center justify-center backdrop-blur-md z-40">
           <div className="w-16 h-16 border-4 border-white/20 border-t-amber-500 rounded-full animate-spin"></div>
-          <p className="text-white font-black uppercase tracking-[0.3em] text-[10px] mt-8">Consulting Experts...</p>
+          <p className="text-white font-black uppercase tracking-[0.3em] text-[10px] mt-8">{isLoading ? 'Consulting Experts...' : 'Checking Photo...'}</p>
         </div>
-      ) : (
-        <div className="absolute bottom-8 left-0 right-0 flex justify-center z-50">
+      ) : !flagged && (
+        <div className="absolute bottom-8 left-0 right-0 flex justify-center items-center z-50">
+          <button
+            aria-label="Choose photo"
+            onClick={() => fileInputRef.current?.click()}
+            className="absolute left-8 w-12 h-12 rounded-2xl bg-black/30 backdrop-blur-md border border-white/30 text-white flex items-center justify-center transition-all active:scale-90"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+          </button>
           <button
             onClick={handleCapture}
             disabled={coolDown}
@@ -87,6 +385,12 @@ const CameraView: React.FC<CameraViewProps> = ({ onCapture, isLoading }) => {
           </button>
         </div>
       )}
+
+      {uploadError && !flagged && (
+        <p className="absolute top-6 left-6 right-6 z-50 bg-rose-600/90 text-white text-[10px] font-bold rounded-xl px-4 py-2 text-center">{uploadError}</p>
+      )}
+      {qualityWarning}
+      {dropOverlay}
     </div>
   );
 };
@@ -0,0 +1,30 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { AnalysisResult } from '../types.ts';
+import { DEFAULT_PROFILE } from '../services/cityProfiles.ts';
+import DealClosingForm from './DealClosingForm.tsx';
+
+const RESULT: AnalysisResult = {
+  objectName: 'Peshawari Chappal',
+  price: { min: 1800, typical: 2500, max: 3500, unit: 'pair', confidence: 'high' },
+  translations: {},
+};
+
+describe('DealClosingForm', () => {
+  it('suggests the estimate for the whole quantity until an amount is typed', () => {
+    const onConfirm = vi.fn();
+    render(<DealClosingForm result={RESULT} profile={DEFAULT_PROFILE} onConfirm={onConfirm} onCancel={() => {}} />);
+    const paid = screen.getByLabelText('Total Paid (PKR)');
+
+    fireEvent.change(screen.getByLabelText('Quantity (pair)'), { target: { value: '3' } });
+    expect(paid).toHaveValue(7500);
+
+    fireEvent.change(paid, { target: { value: '6000' } });
+    fireEvent.change(screen.getByLabelText('Quantity (pair)'), { target: { value: '4' } });
+    expect(paid).toHaveValue(6000);
+
+    fireEvent.click(screen.getByText('Record Purchase'));
+    expect(onConfirm).toHaveBeenCalledWith(expect.objectContaining({ paidPKR: 6000, quantity: 4 }));
+  });
+});
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { AnalysisResult, CityProfile, MarketMatch } from '../types.ts';
+import { formatPKR, formatUnit } from '../services/pricing.ts';
+import { getBazaarsInCity } from '../services/gazetteer.ts';
+import { findDirectoryShop, matchShops } from '../services/shopDirectory.ts';
+import { formatPKRWithHome } from '../services/currency.ts';
+import { useCurrencySettings } from './HomePrice.tsx';
+
+export interface DealDetails {
+  paidPKR: number;
+  quantity: number;
+  shopName?: string;
+  shopId?: string;
+  market?: MarketMatch;
+  notes?: string;
+}
+
+interface DealClosingFormProps {
+  result: AnalysisResult;
+  profile: CityProfile;
+  onConfirm: (details: DealDetails) => void;
+  onCancel: () => void;
+}
+
+const OTHER = '__other__';
+
+const inputClass = 'w-full px-4 py-3 rounded-xl bg-white border border-teal-100 text-sm font-semibold text-teal-900 outline-none focus:border-teal-400';
+const labelClass = 'text-[9px] font-black text-teal-600 uppercase tracking-[0.2em] mb-1.5 block';
+
+const DealClosingForm: React.FC<DealClosingFormProps> = ({ result, profile, onConfirm, onCancel }) => {
+  const bazaars = profile.cities.flatMap(getBazaarsInCity);
+  const shops = Array.from(new Set(matchShops(result).map(listing => listing.shop?.name ?? listing.suggestion.name)));
+
+  const [paid, setPaid] = useState(String(result.price.typical));
+  const [paidEdited, setPaidEdited] = useState(false);
+  const [quantity, setQuantity] = useState('1');
+  const [shopChoice, setShopChoice] = useState(shops[0] ?? OTHER);
+  const [customShop, setCustomShop] = useState('');
+  const [bazaarId, setBazaarId] = useState(result.market?.bazaarId ?? '');
+  const [notes, setNotes] = useState('');
+
+  const paidAmount = parseFloat(paid);
+  const quantityAmount = parseFloat(quantity);
+  const isValid = Number.isFinite(paidAmount) && paidAmount >= 0 && Number.isFinite(quantityAmount) && quantityAmount > 0;
+  const estimate = isValid ? result.price.typical * quantityAmount : null;
+  const savings = estimate !== null ? estimate - paidAmount : null;
+  const currency = useCurrencySettings();
+
+  /** Keeps the suggested total in step with the quantity until the amount is typed in. */
+  const handleQuantityChange = (value: string) => {
+    setQuantity(value);
+    const amount = parseFloat(value);
+    if (!paidEdited && Number.isFinite(amount) && amount > 0) setPaid(String(Math.round(result.price.typical * amount)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    const bazaar = bazaars.find(b => b.id === bazaarId);
+    const market: MarketMatch | undefined = bazaar
+      ? { city: bazaar.city, bazaarId: bazaar.id, bazaarName: bazaar.name }
+      : result.market;
+    const shopName = (shopChoice === OTHER ? customShop : shopChoice).trim();
+
+    onConfirm({
+      paidPKR: Math.round(paidAmount),
+      quantity: quantityAmount,
+      shopName: shopName || undefined,
+      shopId: shopName ? findDirectoryShop(shopName, profile.cities)?.id : undefined,
+      market,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-teal-50/40 border border-teal-100 rounded-[2rem] p-6 md:p-8 mb-6 animate-in slide-in-from-bottom-2 space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-black text-teal-900 tracking-tight">Close the Deal</h3>
+        <span className="text-[9px] font-bold text-teal-900/40 uppercase tracking-widest">Estimate {formatPKRWithHome(result.price.typical, currency)} / {formatUnit(result.price.unit)}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <label>
+          <span className={labelClass}>Total Paid (PKR)</span>
+          <input type="number" inputMode="numeric" min="0" value={paid} onChange={(e) => { setPaid(e.target.value); setPaidEdited(true); }} className={inputClass} required />
+        </label>
+        <label>
+          <span className={labelClass}>Quantity ({formatUnit(result.price.unit)})</span>
+          <input type="number" inputMode="decimal" min="0" step="any" value={quantity} onChange={(e) => handleQuantityChange(e.target.value)} className={inputClass} required />
+        </label>
+      </div>
+
+      <label className="block">
+        <span className={labelClass}>Shop</span>
+        <select value={shopChoice} onChange={(e) => setShopChoice(e.target.value)} className={inputClass}>
+          {shops.map(name => <option key={name} value={name}>{name}</option>)}
+          <option value={OTHER}>Other shop…</option>
+        </select>
+        {shopChoice === OTHER && (
+          <input type="text" value={customShop} onChange={(e) => setCustomShop(e.target.value)} placeholder="Shop name" className={`${inputClass} mt-2`} />
+        )}
+      </label>
+
+      <label className="block">
+        <span className={labelClass}>Bazaar</span>
+        <select value={bazaarId} onChange={(e) => setBazaarId(e.target.value)} className={inputClass}>
+          <option value="">{result.market ? `Detected: ${result.market.bazaarName ?? result.market.city}` : 'Not specified'}</option>
+          {bazaars.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+        </select>
+      </label>
+
+      <label className="block">
+        <span className={labelClass}>Notes</span>
+        <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} placeholder="Quality, what was agreed, seller details…" className={`${inputClass} resize-none`} />
+      </label>
+
+      {savings !== null && (
+        <p className={`text-xs font-black uppercase tracking-widest ${savings >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+          {savings >= 0 ? `Saving ${formatPKRWithHome(savings, currency)} vs estimate` : `Paying ${formatPKRWithHome(-savings, currency)} over estimate`}
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <button type="submit" disabled={!isValid} className="flex-1 py-4 rounded-2xl bg-teal-800 text-white font-black text-[10px] uppercase tracking-[0.3em] shadow-xl btn-elegant disabled:opacity-40">Record Purchase</button>
+        <button type="button" onClick={onCancel} className="px-8 py-4 rounded-2xl bg-white text-teal-400 font-black text-[10px] uppercase tracking-[0.3em] border border-teal-100">Back</button>
+      </div>
+    </form>
+  );
+};
+
+export default DealClosingForm;
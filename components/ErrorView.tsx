@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { BazaarError, PermissionError, QuotaError } from '../services/errors.ts';
+
+export interface ErrorCopy {
+  title: string;
+  detail: string;
+}
+
+/** What to tell the traveler for each kind of failure. Shared with the camera and bridge screens. */
+export function errorCopy(error: BazaarError): ErrorCopy {
+  switch (error.kind) {
+    case 'quota':
+      return { title: 'Experts Are Busy', detail: 'The Gemini quota for this key is used up for the moment. It refills shortly; the next attempt unlocks when the timer runs out.' };
+    case 'auth':
+      return { title: 'Key Not Accepted', detail: 'The Gemini API key is missing, invalid, or lacks access to this model. Enter a key from a billing-enabled project to continue.' };
+    case 'network':
+      return { title: 'Signal Lost', detail: 'The analysis service could not be reached. Check your connection, or step closer to the shop front, and try again.' };
+    case 'safety':
+      return { title: 'Photo Not Analyzed', detail: 'The model declined to describe this photo. Frame just the item, away from faces and signage, and take another.' };
+    case 'parse':
+      return { title: 'Garbled Appraisal', detail: 'The experts answered, but not in a form we could read. This is usually a one-off; trying again tends to work.' };
+    case 'permission': {
+      const { device, unavailable } = error as PermissionError;
+      const name = device === 'camera' ? 'camera' : 'microphone';
+      return unavailable
+        ? { title: `No ${name[0].toUpperCase()}${name.slice(1)} Found`, detail: `No usable ${name} was found, or another app is holding it. Close other apps using the ${name} and try again.` }
+        : { title: `${name[0].toUpperCase()}${name.slice(1)} Blocked`, detail: `Bazaar-Sense needs ${name} access. Allow it from the lock icon in the address bar (or Settings › Site permissions on mobile), then grant it here.` };
+    }
+    default:
+      return { title: 'Exploration Paused', detail: 'Something unexpected went wrong while consulting the experts.' };
+  }
+}
+
+interface ErrorViewProps {
+  error: BazaarError;
+  /** Repeats the failed capture. */
+  onRetry: () => void;
+  onReenterKey: () => void;
+  onReset: () => void;
+}
+
+/** Seconds left before a rate-limited request may be repeated. */
+function useCountdown(ms: number) {
+  const [remaining, setRemaining] = useState(Math.ceil(ms / 1000));
+
+  useEffect(() => {
+    setRemaining(Math.ceil(ms / 1000));
+    if (ms <= 0) return;
+    const timer = setInterval(() => setRemaining(s => {
+      if (s <= 1) clearInterval(timer);
+      return Math.max(0, s - 1);
+    }), 1000);
+    return () => clearInterval(timer);
+  }, [ms]);
+
+  return remaining;
+}
+
+const ErrorView: React.FC<ErrorViewProps> = ({ error, onRetry, onReenterKey, onReset }) => {
+  const { title, detail } = errorCopy(error);
+  const remaining = useCountdown(error instanceof QuotaError ? error.retryAfterMs : 0);
+
+  const primary = (() => {
+    switch (error.kind) {
+      case 'quota':
+        return { label: remaining > 0 ? `Try Again in ${remaining}s` : 'Try Again', onClick: onRetry, disabled: remaining > 0 };
+      case 'auth':
+        return { label: 'Re-enter Key', onClick: onReenterKey };
+      case 'network':
+      case 'parse':
+        return { label: 'Try Again', onClick: onRetry };
+      case 'safety':
+        return { label: 'Try Another Photo', onClick: onReset };
+      case 'permission':
+        return { label: 'Grant Permission', onClick: onReset };
+      default:
+        return null;
+    }
+  })();
+
+  return (
+    <div className="bg-white p-12 md:p-16 rounded-[3rem] elegant-shadow text-center animate-in zoom-in-95 duration-300 border-4 border-rose-50">
+      <div className="w-24 h-24 bg-rose-50 text-rose-500 rounded-[2.5rem] flex items-center justify-center mx-auto mb-8 shadow-xl shadow-rose-100/50 rotate-6">
+        <svg className="w-12 h-12" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+      </div>
+      <h2 className="text-3xl font-black text-teal-950 mb-3 tracking-tighter">{title}</h2>
+      <p className="text-teal-900/60 mb-4 text-sm font-medium leading-relaxed max-w-xs mx-auto">{detail}</p>
+      <p className="text-teal-900/30 mb-12 text-[10px] font-mono leading-relaxed max-w-xs mx-auto break-words">{error.message.slice(0, 160)}</p>
+      {primary && (
+        <button
+          onClick={primary.onClick}
+          disabled={primary.disabled}
+          className="w-full max-w-xs py-6 mb-4 rounded-3xl font-black uppercase text-xs tracking-[0.3em] text-white bg-teal-900 btn-elegant shadow-2xl shadow-teal-900/30 mx-auto block disabled:opacity-40"
+        >
+          {primary.label}
+        </button>
+      )}
+      <button
+        onClick={onReset}
+        className={`w-full max-w-xs py-6 rounded-3xl font-black uppercase text-xs tracking-[0.3em] mx-auto block ${primary ? 'text-teal-900/50 bg-teal-50' : 'text-white bg-teal-900 btn-elegant shadow-2xl shadow-teal-900/30'}`}
+      >
+        Reset Systems
+      </button>
+    </div>
+  );
+};
+
+export default ErrorView;
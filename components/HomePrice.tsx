@@ -0,0 +1,26 @@
+import React, { useEffect, useState } from 'react';
+import { PriceRange } from '../types.ts';
+import { CurrencySettings, formatHome, formatHomeRange, loadCurrencySettings, subscribeCurrencySettings } from '../services/currency.ts';
+
+/** Current home currency and rates, re-read whenever they are saved. */
+export function useCurrencySettings(): CurrencySettings {
+  const [settings, setSettings] = useState(loadCurrencySettings);
+  useEffect(() => subscribeCurrencySettings(() => setSettings(loadCurrencySettings())), []);
+  return settings;
+}
+
+interface HomePriceProps {
+  /** A rupee amount, or a range to convert end to end. */
+  amount: number | PriceRange;
+  className?: string;
+}
+
+/** The home-currency equivalent shown under or beside a PKR price; nothing when PKR only. */
+const HomePrice: React.FC<HomePriceProps> = ({ amount, className = 'block text-[10px] font-bold text-teal-900/50' }) => {
+  const settings = useCurrencySettings();
+  const text = typeof amount === 'number' ? formatHome(amount, settings) : formatHomeRange(amount, settings);
+  if (!text) return null;
+  return <span className={className}>{text}</span>;
+};
+
+export default HomePrice;
@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { BridgeMode, ChatMessage, CityProfile, SellerLanguage, TranscriptRecord } from '../types.ts';
+import { LANGUAGE_LABELS } from '../services/cityProfiles.ts';
+import { LiveBridge, LiveBridgeStatus, Speaker } from '../services/liveBridge.ts';
+import { getProvider } from '../services/provider.ts';
+import { BazaarError, classifyError } from '../services/errors.ts';
+import { errorCopy } from './ErrorView.tsx';
+import { speakerLabel } from '../services/transcripts.ts';
+
+interface LiveBridgePanelProps {
+  profile: CityProfile;
+  /** What the conversation is about; stored with the transcript. */
+  objectName: string;
+  scanId?: string;
+  /** Called as a session's transcript grows and once more when it ends. */
+  onSaveTranscript: (transcript: TranscriptRecord) => void;
+}
+
+const STATUS_LABELS: Partial<Record<LiveBridgeStatus, string>> = {
+  connecting: 'Connecting',
+  listening: 'Listening',
+  speaking: 'Speaking',
+  reconnecting: 'Reconnecting',
+};
+
+const LiveBridgePanel: React.FC<LiveBridgePanelProps> = ({ profile, objectName, scanId, onSaveTranscript }) => {
+  const [sellerLanguage, setSellerLanguage] = useState<SellerLanguage>(profile.sellerLanguages[0]);
+  const [mode, setMode] = useState<BridgeMode>('passive');
+  const [status, setStatus] = useState<LiveBridgeStatus>('idle');
+  const [speaker, setSpeaker] = useState<Speaker | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [error, setError] = useState<BazaarError | null>(null);
+
+  const sessionRef = useRef<LiveBridge | null>(null);
+  /** Transcript of the running session; cleared once it has been saved with an end time. */
+  const transcriptRef = useRef<TranscriptRecord | null>(null);
+  const onSaveTranscriptRef = useRef(onSaveTranscript);
+  onSaveTranscriptRef.current = onSaveTranscript;
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollContainerRef.current) {
+      scrollContainerRef.current.scrollTop = scrollContainerRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  const finishTranscript = useCallback(() => {
+    const transcript = transcriptRef.current;
+    transcriptRef.current = null;
+    if (transcript && transcript.messages.length > 0) {
+      onSaveTranscriptRef.current({ ...transcript, endedAt: Date.now() });
+    }
+  }, []);
+
+  const stopSession = useCallback(() => {
+    sessionRef.current?.stop();
+    sessionRef.current = null;
+    finishTranscript();
+  }, [finishTranscript]);
+
+  useEffect(() => stopSession, [stopSession]);
+
+  const startSession = () => {
+    let session: LiveBridge;
+    try {
+      session = getProvider().createLiveBridge({ sellerLanguage, profile, mode });
+    } catch (err) {
+      setStatus('error');
+      setError(classifyError(err, 'microphone'));
+      return;
+    }
+    setMessages([]);
+    setError(null);
+    transcriptRef.current = {
+      id: Date.now().toString(),
+      scanId,
+      objectName,
+      sellerLanguage,
+      mode,
+      messages: [],
+      timestamp: Date.now(),
+    };
+
+    session.on('status', setStatus);
+    session.on('speaker', setSpeaker);
+    session.on('transcript', transcript => {
+      setMessages(transcript);
+      if (transcriptRef.current) transcriptRef.current = { ...transcriptRef.current, messages: transcript };
+    });
+    session.on('turnComplete', () => {
+      if (transcriptRef.current) onSaveTranscriptRef.current(transcriptRef.current);
+    });
+    session.on('error', err => {
+      setError(err);
+      sessionRef.current = null;
+      finishTranscript();
+    });
+    sessionRef.current = session;
+    session.start();
+  };
+
+  const isRunning = status !== 'idle' && status !== 'error';
+  const canTalk = status === 'listening' || status === 'speaking';
+  const sellerLabel = LANGUAGE_LABELS[sellerLanguage];
+
+  const holdProps = (who: Speaker) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      e.preventDefault();
+      sessionRef.current?.beginTurn(who);
+    },
+    onPointerUp: () => sessionRef.current?.endTurn(),
+    onPointerLeave: () => { if (speaker === who) sessionRef.current?.endTurn(); },
+    onPointerCancel: () => sessionRef.current?.endTurn(),
+    onContextMenu: (e: React.MouseEvent) => e.preventDefault(),
+  });
+
+  return (
+    <>
+      <div className="flex bg-teal-900/5 p-1.5 rounded-2xl mb-6 max-w-md mx-auto">
+        {profile.sellerLanguages.map(language => (
+          <button key={language} onClick={() => setSellerLanguage(language)} disabled={isRunning} className={`flex-1 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${sellerLanguage === language ? 'bg-white text-teal-900 shadow-md' : 'text-teal-900/40'}`}>{LANGUAGE_LABELS[language]} Speaker</button>
+        ))}
+      </div>
+
+      <div className="flex justify-center gap-2 mb-6">
+        {([['passive', 'Passive'], ['pushToTalk', 'Push-to-Talk']] as [BridgeMode, string][]).map(([value, label]) => (
+          <button key={value} onClick={() => setMode(value)} disabled={isRunning} className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${mode === value ? 'bg-teal-900 text-white shadow-md' : 'bg-teal-900/5 text-teal-900/40'}`}>{label}</button>
+        ))}
+      </div>
+
+      <div className="bg-teal-950 rounded-[2.5rem] p-5 md:p-8 mb-8 shadow-2xl h-[380px] md:h-[450px] flex flex-col relative border border-teal-900 ring-4 ring-teal-900/20">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-3">
+             <div className="w-8 h-8 rounded-lg bg-teal-900 border border-teal-800 flex items-center justify-center text-teal-400">
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M20 2H4c-1.1 0-2 .9-2 2v18l4-4h14c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2z"/></svg>
+             </div>
+             <div>
+                <span className="text-teal-400/60 text-[10px] font-black uppercase tracking-[0.4em] block">Translation Hub</span>
+                <span className="text-teal-500/30 text-[8px] font-bold uppercase tracking-[0.2em]">{mode === 'pushToTalk' ? 'Push-to-Talk Turns' : 'Passive Bridge Active'}</span>
+             </div>
+          </div>
+          {STATUS_LABELS[status] && (
+             <div className="flex items-center gap-1.5 bg-teal-900/50 px-3 py-1.5 rounded-full border border-teal-800">
+               <span className={`w-1.5 h-1.5 rounded-full animate-ping ${status === 'reconnecting' ? 'bg-rose-400' : 'bg-amber-400'}`}></span>
+               <span className={`text-[8px] font-black uppercase tracking-widest ${status === 'reconnecting' ? 'text-rose-400' : 'text-amber-400'}`}>{STATUS_LABELS[status]}</span>
+             </div>
+          )}
+        </div>
+
+        <div ref={scrollContainerRef} className="flex-1 overflow-y-auto space-y-5 pr-2 custom-scrollbar">
+          {messages.length === 0 ? (
+            <div className="h-full flex flex-col items-center justify-center text-teal-700/50 text-center px-10">
+              <span className="text-xs font-medium tracking-tight">{error ? errorCopy(error).detail : (mode === 'pushToTalk' ? 'Hold a button below while that person speaks...' : 'Speak now. The bridge will translate passively...')}</span>
+            </div>
+          ) : (
+            messages.map((msg) => (
+              <div key={msg.id} className={`flex flex-col ${msg.role === 'traveler' ? 'items-start' : 'items-end'} animate-in slide-in-from-bottom-2`}>
+                <span className={`text-[8px] font-black uppercase mb-1.5 tracking-widest ${msg.role === 'traveler' ? 'text-teal-500' : 'text-amber-500'}`}>
+                  {mode === 'pushToTalk' ? speakerLabel(msg, sellerLanguage) : msg.role === 'traveler' ? 'English' : `Local ${sellerLanguage.toUpperCase()}`}
+                </span>
+                <div className={`max-w-[85%] p-4 rounded-2xl text-xs md:text-sm font-semibold shadow-lg ${msg.translation ? 'italic opacity-80' : ''} ${msg.role === 'traveler' ? 'bg-teal-900 text-teal-100 border-l-4 border-teal-500' : 'bg-teal-800 text-white border-r-4 border-amber-500'}`}>
+                  {msg.text}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {error && messages.length > 0 && (
+          <p className="mt-3 text-[10px] font-bold text-rose-400 uppercase tracking-widest text-center">{errorCopy(error).title}</p>
+        )}
+
+        <div className="mt-6 pt-4 border-t border-teal-900/50">
+          {isRunning && mode === 'pushToTalk' && (
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              <button {...holdProps('traveler')} disabled={!canTalk} className={`py-6 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] touch-none select-none transition-all disabled:opacity-30 ${speaker === 'traveler' ? 'bg-teal-400 text-teal-950 scale-95 shadow-inner' : 'bg-teal-900 text-teal-200 border border-teal-700'}`}>Me &mdash; English</button>
+              <button {...holdProps('seller')} disabled={!canTalk} className={`py-6 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] touch-none select-none transition-all disabled:opacity-30 ${speaker === 'seller' ? 'bg-amber-400 text-teal-950 scale-95 shadow-inner' : 'bg-teal-900 text-amber-300 border border-amber-700/50'}`}>Seller &mdash; {sellerLabel}</button>
+            </div>
+          )}
+          {!isRunning ? (
+            <button onClick={startSession} className="w-full py-4 md:py-6 rounded-2xl bg-white text-teal-900 font-black text-xs uppercase tracking-[0.4em] shadow-xl btn-elegant">Activate Voice Bridge</button>
+          ) : (
+            <button onClick={stopSession} className="w-full py-4 md:py-6 rounded-2xl bg-rose-500/10 text-rose-400 border-2 border-rose-500/20 font-black text-xs uppercase tracking-[0.4em] btn-elegant">Halt Connection</button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default LiveBridgePanel;
@@ -0,0 +1,161 @@
+import React from 'react';
+import { HistoryItem } from '../types.ts';
+import { itemKeyLabel } from '../services/canonicalItems.ts';
+import { PricePoint, itemPriceHistory, priceSpread, spreadByPlace } from '../services/priceTrends.ts';
+import { formatPKR, formatUnit } from '../services/pricing.ts';
+import HomePrice from './HomePrice.tsx';
+
+interface PriceTrendViewProps {
+  /** Item key from `itemKey`. */
+  itemKey: string;
+  history: HistoryItem[];
+  onOpenScan: (scanId: string) => void;
+  onClose: () => void;
+}
+
+const CHART = { width: 320, height: 180, left: 44, right: 12, top: 12, bottom: 24 };
+
+const shortDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+const compactPKR = (amount: number) => (amount >= 10000 ? `${Math.round(amount / 1000)}k` : Math.round(amount).toLocaleString('en-PK'));
+const formatSpan = (low: number, high: number) => `${formatPKR(low)}–${Math.round(high).toLocaleString('en-PK')}`;
+
+/** Estimated and paid prices over time, with the paid median and middle half shaded. */
+const TrendChart: React.FC<{ points: PricePoint[] }> = ({ points }) => {
+  const paid = priceSpread(points.flatMap(point => (point.paid !== null ? [point.paid] : [])));
+  const values = points.flatMap(point => (point.paid !== null ? [point.estimate, point.paid] : [point.estimate]));
+  const maxValue = Math.max(...values) * 1.1;
+  const first = points[0].timestamp;
+  const last = points[points.length - 1].timestamp;
+  const plotWidth = CHART.width - CHART.left - CHART.right;
+  const plotHeight = CHART.height - CHART.top - CHART.bottom;
+  const x = (timestamp: number) => CHART.left + (last === first ? plotWidth / 2 : ((timestamp - first) / (last - first)) * plotWidth);
+  const y = (value: number) => CHART.top + plotHeight - (value / maxValue) * plotHeight;
+  const ticks = [0, maxValue / 2, maxValue];
+
+  return (
+    <svg role="img" aria-label="Price trend chart" viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full">
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={CHART.left} x2={CHART.width - CHART.right} y1={y(tick)} y2={y(tick)} className="stroke-teal-50" strokeWidth={1} />
+          <text x={CHART.left - 6} y={y(tick) + 3} textAnchor="end" fontSize={8} className="fill-teal-900/40 font-bold">{compactPKR(tick)}</text>
+        </g>
+      ))}
+      {paid && (
+        <>
+          <rect x={CHART.left} width={plotWidth} y={y(paid.high)} height={Math.max(1, y(paid.low) - y(paid.high))} className="fill-amber-100/70" />
+          <line x1={CHART.left} x2={CHART.width - CHART.right} y1={y(paid.median)} y2={y(paid.median)} className="stroke-amber-500" strokeWidth={1.5} strokeDasharray="4 3" />
+        </>
+      )}
+      {points.map(point => (
+        <g key={point.id}>
+          {point.paid !== null && (
+            <line x1={x(point.timestamp)} x2={x(point.timestamp)} y1={y(point.estimate)} y2={y(point.paid)} className="stroke-teal-200" strokeWidth={1} />
+          )}
+          <circle cx={x(point.timestamp)} cy={y(point.estimate)} r={3.5} className="fill-white stroke-teal-600" strokeWidth={1.5} />
+          {point.paid !== null && <circle cx={x(point.timestamp)} cy={y(point.paid)} r={3.5} className="fill-amber-500" />}
+        </g>
+      ))}
+      <text x={CHART.left} y={CHART.height - 6} fontSize={8} className="fill-teal-900/40 font-bold">{shortDate(first)}</text>
+      {last !== first && <text x={CHART.width - CHART.right} y={CHART.height - 6} textAnchor="end" fontSize={8} className="fill-teal-900/40 font-bold">{shortDate(last)}</text>}
+    </svg>
+  );
+};
+
+/** How one item's price has moved across our purchases and estimates. */
+const PriceTrendView: React.FC<PriceTrendViewProps> = ({ itemKey, history, onOpenScan, onClose }) => {
+  const trend = itemPriceHistory(history, itemKey);
+  const points = trend?.points ?? [];
+  const paid = priceSpread(points.flatMap(point => (point.paid !== null ? [point.paid] : [])));
+  const places = spreadByPlace(points);
+  const unit = trend ? formatUnit(trend.unit) : '';
+
+  return (
+    <div className="bg-white rounded-[3rem] elegant-shadow p-8 md:p-12 animate-in fade-in slide-in-from-bottom-4 duration-500 border border-teal-50">
+      <div className="mb-6">
+        <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Price History{trend && <> &bull; per {unit}</>}</span>
+        <h2 className="text-2xl md:text-3xl font-black text-teal-950 tracking-tighter">{itemKeyLabel(itemKey, points[0]?.objectName ?? 'Item')}</h2>
+      </div>
+
+      {points.length === 0 ? (
+        <p className="text-xs italic text-teal-900/40 mb-8">No priced entries for this item yet.</p>
+      ) : (
+        <>
+          <div className="p-4 rounded-[2rem] border border-teal-50 bg-teal-50/20 mb-3">
+            <TrendChart points={points} />
+          </div>
+          <div className="flex flex-wrap gap-4 mb-6 px-2 text-[9px] font-black uppercase tracking-widest text-teal-900/50">
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-full border-2 border-teal-600" />AI estimate</span>
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-full bg-amber-500" />Paid</span>
+            <span className="flex items-center gap-1.5"><span className="w-4 h-2.5 bg-amber-100" />Middle half paid</span>
+          </div>
+
+          {paid && (
+            <div className="grid grid-cols-3 gap-3 mb-8">
+              <div className="p-4 rounded-2xl bg-teal-50/50 border border-teal-100/50">
+                <span className="text-[8px] font-black text-teal-600 uppercase tracking-[0.2em] block">Median Paid</span>
+                <span className="text-base md:text-lg font-black text-teal-900">{formatPKR(paid.median)}</span>
+                <HomePrice amount={paid.median} />
+              </div>
+              <div className="p-4 rounded-2xl bg-teal-50/50 border border-teal-100/50">
+                <span className="text-[8px] font-black text-teal-600 uppercase tracking-[0.2em] block">Middle Half</span>
+                <span className="text-base md:text-lg font-black text-teal-900">{formatSpan(paid.low, paid.high)}</span>
+              </div>
+              <div className="p-4 rounded-2xl bg-teal-50/50 border border-teal-100/50">
+                <span className="text-[8px] font-black text-teal-600 uppercase tracking-[0.2em] block">Purchases</span>
+                <span className="text-base md:text-lg font-black text-teal-900">{paid.count}</span>
+              </div>
+            </div>
+          )}
+
+          {places.length > 0 && (
+            <div className="mb-8">
+              <h3 className="text-sm font-black text-teal-900 uppercase tracking-widest mb-3">By Bazaar</h3>
+              <ul className="space-y-2">
+                {places.map(({ place, spread }) => (
+                  <li key={place} className="p-4 rounded-2xl border border-teal-50 bg-teal-50/20 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-black text-teal-900 truncate">{place}</p>
+                      <p className="text-[10px] font-bold text-teal-400 uppercase tracking-widest">{spread.count} {spread.count === 1 ? 'purchase' : 'purchases'}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <span className="block text-amber-600 text-sm font-black">{formatPKR(spread.median)}</span>
+                      {spread.count > 1 && <span className="block text-[10px] font-bold text-teal-900/50">{formatSpan(spread.min, spread.max)}</span>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="mb-8">
+            <h3 className="text-sm font-black text-teal-900 uppercase tracking-widest mb-3">Entries</h3>
+            <ul className="space-y-2">
+              {[...points].reverse().map(point => (
+                <li key={point.id}>
+                  <button
+                    onClick={() => point.scanId && onOpenScan(point.scanId)}
+                    disabled={!point.scanId}
+                    className="w-full px-4 py-3 rounded-2xl border border-teal-50 flex items-center justify-between gap-4 text-left"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-xs font-black text-teal-900 truncate">{point.objectName}</p>
+                      <p className="text-[9px] font-bold text-teal-400 uppercase tracking-widest">{new Date(point.timestamp).toLocaleDateString(undefined, { dateStyle: 'medium' })} &bull; {point.place}</p>
+                    </div>
+                    <div className="text-right shrink-0 text-[10px] font-bold text-teal-900/60">
+                      <span className="block">Est. {formatPKR(point.estimate)}</span>
+                      {point.paid !== null && <span className="block text-amber-600 font-black">Paid {formatPKR(point.paid)}</span>}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+
+      <button onClick={onClose} className="w-full py-6 bg-teal-900 text-white rounded-3xl font-black text-xs uppercase tracking-[0.4em] btn-elegant shadow-2xl shadow-teal-900/20">Back</button>
+    </div>
+  );
+};
+
+export default PriceTrendView;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { OutboxEntry, ScanRecord } from '../types.ts';
+import { ErrorKind } from '../services/errors.ts';
+import { formatPriceRange } from '../services/pricing.ts';
+
+interface QueuedCaptureViewProps {
+  /** The capture just queued; null when the screen was opened to review failures. */
+  entry: OutboxEntry | null;
+  /** Previously analyzed scans that look like this capture. */
+  similar: ScanRecord[];
+  pendingCount: number;
+  /** Queued captures that stopped retrying. */
+  failed: OutboxEntry[];
+  onRetryFailed: (entry: OutboxEntry) => void;
+  onDiscardFailed: (entry: OutboxEntry) => void;
+  onOpenScan: (scanId: string) => void;
+  onReset: () => void;
+}
+
+const FAILURE_REASONS: Partial<Record<ErrorKind, string>> = {
+  auth: 'API key not accepted',
+  safety: 'Photo declined by the model',
+  parse: 'Answer could not be read',
+  quota: 'Quota still used up',
+  network: 'Service kept failing',
+};
+
+const QueuedCaptureView: React.FC<QueuedCaptureViewProps> = ({ entry, similar, pendingCount, failed, onRetryFailed, onDiscardFailed, onOpenScan, onReset }) => {
+  return (
+    <div className="bg-white rounded-[3rem] elegant-shadow p-8 md:p-12 animate-in zoom-in-95 duration-300 border-4 border-amber-50">
+      {entry ? (
+        <div className="flex items-center gap-5 mb-8">
+          <img src={entry.thumbnail} alt="Queued capture" className="w-20 h-20 rounded-2xl object-cover border-2 border-white shadow-md" />
+          <div>
+            <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Saved to Outbox</span>
+            <h2 className="text-2xl md:text-3xl font-black text-teal-950 tracking-tighter">Waiting for Signal</h2>
+            <p className="text-teal-900/50 text-xs font-semibold mt-1">
+              {pendingCount} {pendingCount === 1 ? 'capture' : 'captures'} will be analyzed automatically once you are back online. We'll notify you.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="mb-8">
+          <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Outbox</span>
+          <h2 className="text-2xl md:text-3xl font-black text-teal-950 tracking-tighter">Needs Attention</h2>
+          <p className="text-teal-900/50 text-xs font-semibold mt-1">These captures stopped retrying on their own.</p>
+        </div>
+      )}
+
+      {failed.length > 0 && (
+        <div className="mb-8">
+          <span className="text-[9px] font-black text-rose-500 uppercase tracking-[0.2em] block mb-3">Could Not Analyze &bull; Retry or Discard</span>
+          <div className="space-y-3">
+            {failed.map(item => (
+              <div key={item.id} className="p-4 rounded-[1.5rem] border border-rose-100 bg-rose-50/30 flex items-center gap-4">
+                <img src={item.thumbnail} alt="Failed capture" className="w-12 h-12 rounded-xl object-cover border border-rose-100" />
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-sm font-black text-teal-900 truncate">{(item.lastErrorKind && FAILURE_REASONS[item.lastErrorKind]) ?? 'Analysis failed'}</h3>
+                  <p className="text-[10px] font-bold text-teal-400 uppercase tracking-widest">{new Date(item.timestamp).toLocaleDateString(undefined, { dateStyle: 'medium' })}</p>
+                </div>
+                <button onClick={() => onRetryFailed(item)} className="px-3 py-2 rounded-xl bg-teal-900 text-white font-black text-[9px] uppercase tracking-widest shrink-0">Retry</button>
+                <button onClick={() => onDiscardFailed(item)} className="px-3 py-2 rounded-xl bg-rose-100 text-rose-600 font-black text-[9px] uppercase tracking-widest shrink-0">Discard</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {entry && (similar.length > 0 ? (
+        <div className="mb-8">
+          <span className="text-[9px] font-black text-teal-600 uppercase tracking-[0.2em] block mb-3">Offline Answer &bull; Similar Items You Scanned</span>
+          <div className="space-y-3">
+            {similar.map(scan => (
+              <button key={scan.id} onClick={() => onOpenScan(scan.id)} className="w-full p-4 rounded-[1.5rem] border border-teal-50 bg-teal-50/20 flex items-center gap-4 text-left hover:bg-teal-50/50 transition-all">
+                <img src={scan.thumbnail} alt={scan.result.objectName} className="w-12 h-12 rounded-xl object-cover border border-teal-100" />
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-sm font-black text-teal-900 truncate">{scan.result.objectName}</h3>
+                  <p className="text-[10px] font-bold text-teal-400 uppercase tracking-widest">{new Date(scan.timestamp).toLocaleDateString(undefined, { dateStyle: 'medium' })}</p>
+                </div>
+                <span className="text-amber-600 text-sm font-black shrink-0">{formatPriceRange(scan.result.price)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-teal-900/40 text-xs italic text-center mb-8">No similar items in your saved scans yet.</p>
+      ))}
+
+      <button onClick={onReset} className="w-full py-6 rounded-3xl font-black uppercase text-xs tracking-[0.3em] text-white bg-teal-900 btn-elegant shadow-2xl shadow-teal-900/30">Capture Another</button>
+    </div>
+  );
+};
+
+export default QueuedCaptureView;
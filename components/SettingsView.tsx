@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { verifyApiKey } from '../services/gemini.ts';
+import { classifyError } from '../services/errors.ts';
+import { clearStoredKey, getActiveKey, hasStoredKey, setActiveKey, storeKey, storedKeyHint, unlockKey } from '../services/keyVault.ts';
+import {
+  ANALYSIS_MODELS,
+  DEFAULT_MODEL_SETTINGS,
+  ModelSettings,
+  TTS_MODELS,
+  TTS_VOICES,
+  loadModelSettings,
+  resetModelSettings,
+  saveModelSettings,
+} from '../services/settings.ts';
+import {
+  HOME_CURRENCIES,
+  HomeCurrency,
+  refreshRates,
+  resetRates,
+  setHomeCurrency,
+  setManualRate,
+} from '../services/currency.ts';
+import { errorCopy } from './ErrorView.tsx';
+import { useCurrencySettings } from './HomePrice.tsx';
+
+interface ApiKeyPanelProps {
+  /** Called whenever a key becomes active, or the active key is forgotten. */
+  onKeyChange: (active: boolean) => void;
+}
+
+const inputClass = 'w-full px-4 py-3.5 rounded-2xl bg-teal-50/50 border border-teal-100 text-sm font-semibold text-teal-900 outline-none focus:border-amber-400';
+const primaryButtonClass = 'w-full py-5 bg-teal-800 text-white rounded-2xl font-bold text-xs uppercase tracking-[0.3em] btn-elegant shadow-xl shadow-teal-900/20 disabled:opacity-40';
+const secondaryButtonClass = 'flex-1 py-3.5 rounded-2xl bg-teal-50 text-teal-700 font-black text-[9px] uppercase tracking-widest';
+
+/**
+ * Enter, verify, unlock or forget the Gemini key. Keys are only kept across
+ * reloads when a passphrase is given, and then only encrypted.
+ */
+export const ApiKeyPanel: React.FC<ApiKeyPanelProps> = ({ onKeyChange }) => {
+  const [activeKey, setActiveKeyState] = useState(getActiveKey);
+  const [stored, setStored] = useState(hasStoredKey);
+  const [editing, setEditing] = useState(false);
+  const [apiKey, setApiKey] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const activate = (key: string | null) => {
+    setActiveKey(key);
+    setActiveKeyState(key);
+    setStored(hasStoredKey());
+    setEditing(false);
+    setApiKey('');
+    setPassphrase('');
+    onKeyChange(key !== null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      const error = classifyError(err);
+      setMessage(error.kind === 'auth' && stored && !editing ? error.message : errorCopy(error).detail);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    const key = apiKey.trim();
+    await verifyApiKey(key);
+    if (passphrase) await storeKey(key, passphrase);
+    activate(key);
+  });
+
+  const handleUnlock = () => run(async () => {
+    activate(await unlockKey(passphrase));
+  });
+
+  const handleForget = () => {
+    clearStoredKey();
+    activate(null);
+  };
+
+  if (activeKey && !editing) {
+    return (
+      <div className="text-left">
+        <p className="text-[10px] font-black uppercase tracking-widest text-teal-900/40 mb-1">Active Key</p>
+        <p className="font-mono text-sm font-bold text-teal-900 mb-1">&bull;&bull;&bull;&bull;{activeKey.slice(-4)}</p>
+        <p className="text-xs text-teal-900/50 font-medium mb-6">
+          {stored && storedKeyHint() === activeKey.slice(-4) ? 'Stored encrypted on this device.' : 'Kept for this session only.'}
+        </p>
+        <div className="flex gap-3">
+          <button onClick={() => setEditing(true)} className={secondaryButtonClass}>Change Key</button>
+          <button onClick={handleForget} className={`${secondaryButtonClass} !bg-rose-50 !text-rose-600`}>Forget Key</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (stored && !editing) {
+    return (
+      <form className="text-left space-y-4" onSubmit={e => { e.preventDefault(); handleUnlock(); }}>
+        <p className="text-xs text-teal-900/60 font-medium">A key ending in <span className="font-mono font-bold">{storedKeyHint()}</span> is stored on this device. Enter its passphrase to unlock it.</p>
+        <input type="password" aria-label="Passphrase" placeholder="Passphrase" value={passphrase} onChange={e => setPassphrase(e.target.value)} className={inputClass} autoComplete="current-password" />
+        {message && <p className="text-xs font-semibold text-rose-500">{message}</p>}
+        <button type="submit" disabled={busy || !passphrase} className={primaryButtonClass}>{busy ? 'Unlocking...' : 'Unlock'}</button>
+        <div className="flex gap-3">
+          <button type="button" onClick={() => { setEditing(true); setMessage(null); }} className={secondaryButtonClass}>Use Another Key</button>
+          <button type="button" onClick={handleForget} className={`${secondaryButtonClass} !bg-rose-50 !text-rose-600`}>Forget Key</button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <form className="text-left space-y-4" onSubmit={e => { e.preventDefault(); handleSave(); }}>
+      <input type="password" aria-label="Gemini API key" placeholder="Gemini API key" value={apiKey} onChange={e => setApiKey(e.target.value)} className={inputClass} autoComplete="off" />
+      <input type="password" aria-label="Passphrase" placeholder="Passphrase (optional)" value={passphrase} onChange={e => setPassphrase(e.target.value)} className={inputClass} autoComplete="new-password" />
+      <p className="text-[11px] text-teal-900/40 font-medium leading-relaxed">With a passphrase the key is encrypted and kept on this device; without one it is forgotten when the page closes.</p>
+      {message && <p className="text-xs font-semibold text-rose-500">{message}</p>}
+      <button type="submit" disabled={busy || !apiKey.trim()} className={primaryButtonClass}>{busy ? 'Checking Key...' : 'Verify & Save'}</button>
+      {(activeKey || stored) && (
+        <button type="button" onClick={() => { setEditing(false); setMessage(null); }} className={`${secondaryButtonClass} w-full`}>Cancel</button>
+      )}
+    </form>
+  );
+};
+
+const ModelSelect: React.FC<{ label: string; value: string; options: string[]; onChange: (value: string) => void }> = ({ label, value, options, onChange }) => (
+  <label className="block">
+    <span className="text-[10px] font-black uppercase tracking-widest text-teal-900/40">{label}</span>
+    <select value={value} onChange={e => onChange(e.target.value)} className={`${inputClass} mt-1.5`}>
+      {(options.includes(value) ? options : [value, ...options]).map(option => (
+        <option key={option} value={option}>{option}</option>
+      ))}
+    </select>
+  </label>
+);
+
+const RATE_SOURCE_LABELS = { 'built-in': 'built-in', online: 'fetched online', manual: 'entered by hand' };
+
+/** Home currency and the locally stored PKR rates, editable by hand and refreshable online. */
+const CurrencyPanel: React.FC = () => {
+  const currency = useCurrencySettings();
+  const [drafts, setDrafts] = useState<Partial<Record<HomeCurrency, string>>>({});
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const commitRate = (code: HomeCurrency) => {
+    const draft = drafts[code];
+    setDrafts(prev => ({ ...prev, [code]: undefined }));
+    if (draft === undefined) return;
+    const value = Number(draft);
+    if (value > 0 && value !== currency.rates.pkrPer[code]) setManualRate(code, value);
+  };
+
+  const handleRefresh = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      if (!await refreshRates({ force: true })) setMessage('Offline — using the last saved rates.');
+    } catch (err) {
+      console.warn("Rate refresh failed", err);
+      setMessage("Couldn't reach the rates service. Saved rates still work offline.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="block">
+        <span className="text-[10px] font-black uppercase tracking-widest text-teal-900/40">Home currency</span>
+        <select
+          value={currency.home ?? ''}
+          onChange={e => setHomeCurrency((e.target.value || null) as HomeCurrency | null)}
+          className={`${inputClass} mt-1.5`}
+        >
+          <option value="">PKR only</option>
+          {HOME_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+        </select>
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        {HOME_CURRENCIES.map(code => (
+          <label key={code} className="block">
+            <span className="text-[10px] font-black uppercase tracking-widest text-teal-900/40">PKR per 1 {code}</span>
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="any"
+              aria-label={`PKR per ${code}`}
+              value={drafts[code] ?? String(currency.rates.pkrPer[code])}
+              onChange={e => setDrafts(prev => ({ ...prev, [code]: e.target.value }))}
+              onBlur={() => commitRate(code)}
+              className={`${inputClass} mt-1.5`}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-[11px] text-teal-900/40 font-medium">
+        Rates as of {new Date(currency.rates.asOf).toLocaleDateString(undefined, { dateStyle: 'medium' })} &bull; {RATE_SOURCE_LABELS[currency.rates.source]}
+      </p>
+      {message && <p className="text-xs font-semibold text-rose-500">{message}</p>}
+      <div className="flex gap-3">
+        <button onClick={handleRefresh} disabled={busy} className={`${secondaryButtonClass} disabled:opacity-40`}>{busy ? 'Refreshing...' : 'Refresh Rates'}</button>
+        <button onClick={() => { setDrafts({}); resetRates(); }} className={secondaryButtonClass}>Built-in Rates</button>
+      </div>
+    </div>
+  );
+};
+
+interface SettingsViewProps {
+  onKeyChange: (active: boolean) => void;
+  onClose: () => void;
+}
+
+const SettingsView: React.FC<SettingsViewProps> = ({ onKeyChange, onClose }) => {
+  const [models, setModels] = useState<ModelSettings>(loadModelSettings);
+
+  const update = (patch: Partial<ModelSettings>) => {
+    const next = { ...models, ...patch };
+    setModels(next);
+    saveModelSettings(next);
+  };
+
+  const restoreDefaults = () => {
+    resetModelSettings();
+    setModels({ ...DEFAULT_MODEL_SETTINGS });
+  };
+
+  return (
+    <div className="bg-white rounded-[3rem] elegant-shadow p-8 md:p-12 animate-in fade-in slide-in-from-bottom-4 duration-500 border border-teal-50">
+      <div className="mb-8">
+        <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Configuration</span>
+        <h2 className="text-2xl md:text-3xl font-black text-teal-950 tracking-tighter">Settings</h2>
+      </div>
+
+      <section className="mb-10">
+        <h3 className="text-sm font-black text-teal-900 uppercase tracking-widest mb-4">Gemini API Key</h3>
+        <ApiKeyPanel onKeyChange={onKeyChange} />
+      </section>
+
+      <section className="mb-10 space-y-4">
+        <h3 className="text-sm font-black text-teal-900 uppercase tracking-widest">Models</h3>
+        <ModelSelect label="Analysis" value={models.analysisModel} options={ANALYSIS_MODELS} onChange={analysisModel => update({ analysisModel })} />
+        <ModelSelect label="Fallback when rate-limited" value={models.fallbackModel} options={ANALYSIS_MODELS} onChange={fallbackModel => update({ fallbackModel })} />
+        <ModelSelect label="Speech" value={models.ttsModel} options={TTS_MODELS} onChange={ttsModel => update({ ttsModel })} />
+        <ModelSelect label="Voice" value={models.ttsVoice} options={TTS_VOICES} onChange={ttsVoice => update({ ttsVoice })} />
+        <button onClick={restoreDefaults} className={`${secondaryButtonClass} w-full`}>Restore Defaults</button>
+      </section>
+
+      <section className="mb-10">
+        <h3 className="text-sm font-black text-teal-900 uppercase tracking-widest mb-4">Currency</h3>
+        <CurrencyPanel />
+      </section>
+
+      <button onClick={onClose} className="w-full py-6 bg-teal-900 text-white rounded-3xl font-black text-xs uppercase tracking-[0.4em] btn-elegant shadow-2xl shadow-teal-900/20">Back to Discovery</button>
+    </div>
+  );
+};
+
+export default SettingsView;
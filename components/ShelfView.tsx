@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { ShelfAnalysis } from '../types.ts';
+import { formatPriceRange } from '../services/pricing.ts';
+import { EstimateCheck } from '../services/priceTrends.ts';
+import HomePrice from './HomePrice.tsx';
+
+interface ShelfViewProps {
+  /** The captured photo as base64 JPEG. */
+  image: string;
+  analysis: ShelfAnalysis;
+  /** Indexes of items already added to the log from this shelf. */
+  logged: number[];
+  /** Per item, set when its estimate is far from what we've paid before. */
+  estimateChecks?: (EstimateCheck | null)[];
+  onOpenItem: (index: number) => void;
+  onAddToLog: (index: number) => void;
+  onReset: () => void;
+}
+
+/** Boxes over the photo for every detected item; tap one for the full result. */
+const ShelfView: React.FC<ShelfViewProps> = ({ image, analysis, logged, estimateChecks = [], onOpenItem, onAddToLog, onReset }) => {
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+
+  return (
+    <div className="bg-white rounded-[3rem] elegant-shadow p-6 md:p-10 animate-in fade-in slide-in-from-bottom-4 duration-500 border border-teal-50">
+      <div className="mb-6 px-2">
+        <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Shelf Scan &bull; {analysis.items.length} {analysis.items.length === 1 ? 'item' : 'items'}</span>
+        <h2 className="text-2xl md:text-3xl font-black text-teal-950 tracking-tighter">Tap an Item</h2>
+      </div>
+
+      <div className="relative rounded-[2rem] overflow-hidden mb-8 border-4 border-white shadow-xl">
+        <img src={`data:image/jpeg;base64,${image}`} alt="Captured shelf" className="w-full block" />
+        {analysis.items.map(({ box, result }, index) => (
+          <button
+            key={index}
+            aria-label={`Open ${result.objectName}`}
+            onClick={() => onOpenItem(index)}
+            onPointerEnter={() => setHighlighted(index)}
+            onPointerLeave={() => setHighlighted(null)}
+            className={`absolute rounded-xl border-2 transition-colors ${highlighted === index ? 'border-amber-400 bg-amber-400/20' : 'border-white/80 bg-teal-900/10'}`}
+            style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+          >
+            <span className="absolute -top-0.5 -left-0.5 w-6 h-6 rounded-lg bg-amber-500 text-white text-[10px] font-black flex items-center justify-center shadow-md">{index + 1}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3 mb-8">
+        {analysis.items.map(({ result }, index) => (
+          <div
+            key={index}
+            onPointerEnter={() => setHighlighted(index)}
+            onPointerLeave={() => setHighlighted(null)}
+            className={`p-4 rounded-[1.5rem] border flex items-center gap-4 transition-all ${highlighted === index ? 'border-amber-200 bg-amber-50/50' : 'border-teal-50 bg-teal-50/20'}`}
+          >
+            <span className="w-8 h-8 shrink-0 rounded-xl bg-amber-500 text-white text-xs font-black flex items-center justify-center">{index + 1}</span>
+            <button onClick={() => onOpenItem(index)} className="flex-1 min-w-0 text-left">
+              <h3 className="text-sm font-black text-teal-900 truncate">{result.objectName}</h3>
+              <p className="text-amber-600 text-xs font-black">
+                {formatPriceRange(result.price)}
+                {estimateChecks[index] && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded-md bg-rose-50 text-rose-600 text-[8px] uppercase tracking-widest">Looks {estimateChecks[index]!.direction}</span>
+                )}
+              </p>
+              <HomePrice amount={result.price} />
+            </button>
+            {logged.includes(index) ? (
+              <span className="shrink-0 px-4 py-2.5 rounded-xl bg-teal-50 text-teal-400 text-[9px] font-black uppercase tracking-widest">Logged</span>
+            ) : (
+              <button onClick={() => onAddToLog(index)} className="shrink-0 px-4 py-2.5 rounded-xl bg-teal-800 text-white text-[9px] font-black uppercase tracking-widest">Add to Log</button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button onClick={onReset} className="w-full py-6 rounded-3xl font-black uppercase text-xs tracking-[0.3em] text-white bg-teal-900 btn-elegant shadow-2xl shadow-teal-900/30">Capture Another</button>
+    </div>
+  );
+};
+
+export default ShelfView;
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Coordinates, HistoryItem, ShopRating } from '../types.ts';
+import { DirectoryShop, SHOP_DIRECTORY, formatHours, isOpenAt } from '../services/shopDirectory.ts';
+import { getBazaar } from '../services/gazetteer.ts';
+import { getCurrentPosition, mapsDirectionsUrl, walkingDirections } from '../services/location.ts';
+import { formatPKR } from '../services/pricing.ts';
+import ShopMap from './ShopMap.tsx';
+import HomePrice from './HomePrice.tsx';
+
+interface ShopDetailViewProps {
+  shop: DirectoryShop;
+  /** Log entries bought at this shop. */
+  purchases: HistoryItem[];
+  rating?: ShopRating;
+  onSaveRating: (rating: ShopRating) => void;
+  onOpenScan: (scanId: string) => void;
+  onClose: () => void;
+}
+
+/** Past this, straight-line walking directions stop being useful. */
+const WALKABLE_METERS = 3000;
+
+const formatDistance = (meters: number) => (meters < 1000 ? `${meters} m` : `${(meters / 1000).toFixed(1)} km`);
+
+const ShopDetailView: React.FC<ShopDetailViewProps> = ({ shop, purchases, rating, onSaveRating, onOpenScan, onClose }) => {
+  const bazaar = getBazaar(shop.bazaarId);
+  const [position, setPosition] = useState<Coordinates | null>(null);
+  const [locating, setLocating] = useState(true);
+  const [stars, setStars] = useState(rating?.rating ?? 0);
+  const [notes, setNotes] = useState(rating?.notes ?? '');
+  const [showCode, setShowCode] = useState(false);
+  const openNow = shop.hours ? isOpenAt(shop.hours, new Date()) : null;
+  const directions = position ? walkingDirections(position, shop.coordinates) : null;
+  const dirty = stars !== (rating?.rating ?? 0) || notes.trim() !== (rating?.notes ?? '');
+
+  useEffect(() => {
+    let active = true;
+    getCurrentPosition().then(coords => {
+      if (!active) return;
+      setPosition(coords);
+      setLocating(false);
+    });
+    return () => { active = false; };
+  }, []);
+
+  const handleSaveRating = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (stars < 1) return;
+    onSaveRating({ shopId: shop.id, rating: stars, notes: notes.trim() || undefined, timestamp: Date.now() });
+  };
+
+  return (
+    <div className="bg-white rounded-[3rem] elegant-shadow p-8 md:p-12 animate-in fade-in slide-in-from-bottom-4 duration-500 border border-teal-50">
+      <div className="mb-6">
+        <div className="flex items-center gap-2 mb-1">
+          <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">{bazaar?.name ?? shop.city}</span>
+          {openNow !== null && (
+            <span className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest ${openNow ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-500'}`}>{openNow ? 'Open now' : 'Closed now'}</span>
+          )}
+        </div>
+        <h2 className="text-2xl md:text-3xl font-black text-teal-950 tracking-tighter">{shop.name}</h2>
+        <p className="text-xs text-teal-900/50 font-semibold mt-1">{shop.specialty}</p>
+      </div>
+
+      <ShopMap shop={shop} bazaar={bazaar} neighbours={SHOP_DIRECTORY.filter(other => other.bazaarId === shop.bazaarId && other.id !== shop.id)} position={position} />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-6 mb-8">
+        <div className="p-4 rounded-2xl bg-teal-50/50 border border-teal-100/50">
+          <span className="text-[8px] font-black text-teal-600 uppercase tracking-[0.2em] block mb-1">Getting There</span>
+          <p className="text-sm font-bold text-teal-900">{shop.address}</p>
+          <p className="text-xs font-semibold text-teal-900/60 mt-1">
+            {locating
+              ? 'Finding your position...'
+              : !directions
+                ? 'Turn on location to see how far it is.'
+                : directions.distanceMeters <= WALKABLE_METERS
+                  ? `Walk ${formatDistance(directions.distanceMeters)} ${directions.heading}, about ${directions.minutes} min.`
+                  : `You're ${formatDistance(directions.distanceMeters)} away.`}
+          </p>
+          <a
+            href={mapsDirectionsUrl(shop.coordinates, position ?? undefined)}
+            target="_blank"
+            rel="noreferrer"
+            className="inline-block mt-3 text-[9px] font-black uppercase tracking-widest text-teal-600"
+          >
+            Turn-by-turn in Maps &rarr;
+          </a>
+        </div>
+        <div className="p-4 rounded-2xl bg-teal-50/50 border border-teal-100/50">
+          <span className="text-[8px] font-black text-teal-600 uppercase tracking-[0.2em] block mb-1">Hours</span>
+          <p className="text-sm font-bold text-teal-900">{shop.hours ? formatHours(shop.hours) : 'Hours not listed'}</p>
+          {shop.contact?.phone && <a href={`tel:${shop.contact.phone}`} className="block text-xs font-bold text-teal-600 mt-1">{shop.contact.phone}</a>}
+          {shop.partnerCode && (
+            <button
+              onClick={() => setShowCode(!showCode)}
+              className={`w-full mt-3 py-2.5 rounded-xl font-black text-[9px] uppercase tracking-widest transition-all ${showCode ? 'bg-white text-teal-600' : 'bg-amber-100 text-amber-700 hover:bg-amber-200'}`}
+            >
+              {showCode ? `CODE: ${shop.partnerCode}` : 'Get Partner Code'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <form onSubmit={handleSaveRating} className="mb-8">
+        <h3 className="text-sm font-black text-teal-900 uppercase tracking-widest mb-3">Our Rating</h3>
+        <div role="radiogroup" aria-label="Our rating" className="flex gap-1 mb-3">
+          {[1, 2, 3, 4, 5].map(value => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={stars === value}
+              aria-label={`${value} ${value === 1 ? 'star' : 'stars'}`}
+              onClick={() => setStars(value)}
+              className={`p-1 transition-transform active:scale-90 ${value <= stars ? 'text-amber-500' : 'text-teal-100'}`}
+            >
+              <svg className="w-7 h-7" fill="currentColor" viewBox="0 0 24 24"><path d="M12 17.27L18.18 21l-1.64-7.03L22 9.24l-7.19-.61L12 2 9.19 8.63 2 9.24l5.46 4.73L5.82 21z"/></svg>
+            </button>
+          ))}
+        </div>
+        <textarea
+          aria-label="Notes"
+          value={notes}
+          onChange={e => setNotes(e.target.value)}
+          rows={2}
+          placeholder="Service, quality, who to ask for…"
+          className="w-full px-4 py-3 rounded-xl bg-white border border-teal-100 text-sm font-semibold text-teal-900 outline-none focus:border-teal-400 resize-none mb-3"
+        />
+        <button type="submit" disabled={stars < 1 || !dirty} className="w-full py-4 rounded-2xl bg-teal-800 text-white font-black text-[10px] uppercase tracking-[0.3em] btn-elegant disabled:opacity-40">
+          {rating && !dirty ? 'Rating Saved' : 'Save Rating'}
+        </button>
+      </form>
+
+      <div className="mb-8">
+        <h3 className="text-sm font-black text-teal-900 uppercase tracking-widest mb-3">Bought Here</h3>
+        {purchases.length === 0 ? (
+          <p className="text-xs italic text-teal-900/40">Nothing logged from this shop yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {purchases.map(item => (
+              <li key={item.id}>
+                <button
+                  onClick={() => item.scanId && onOpenScan(item.scanId)}
+                  disabled={!item.scanId}
+                  className="w-full p-4 rounded-2xl border border-teal-50 bg-teal-50/20 flex items-center justify-between gap-4 text-left"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-black text-teal-900 truncate">{item.objectName}</p>
+                    <p className="text-[10px] font-bold text-teal-400 uppercase tracking-widest">{new Date(item.timestamp).toLocaleDateString(undefined, { dateStyle: 'medium' })}</p>
+                  </div>
+                  {item.paidPKR !== undefined && (
+                    <div className="text-right shrink-0">
+                      <span className="block text-amber-600 text-sm font-black">{formatPKR(item.paidPKR)}</span>
+                      <HomePrice amount={item.paidPKR} />
+                    </div>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <button onClick={onClose} className="w-full py-6 bg-teal-900 text-white rounded-3xl font-black text-xs uppercase tracking-[0.4em] btn-elegant shadow-2xl shadow-teal-900/20">Back</button>
+    </div>
+  );
+};
+
+export default ShopDetailView;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Coordinates } from '../types.ts';
+import { BazaarEntry } from '../services/gazetteer.ts';
+import { DirectoryShop } from '../services/shopDirectory.ts';
+
+interface ShopMapProps {
+  shop: DirectoryShop;
+  bazaar?: BazaarEntry;
+  /** Other listed shops drawn as small dots for orientation. */
+  neighbours: DirectoryShop[];
+  /** Only drawn when it is close enough to share the frame with the shop. */
+  position: Coordinates | null;
+}
+
+/** Beyond this the user is left off the map so the bazaar stays readable. */
+const MAX_POSITION_DISTANCE = 1500;
+const MIN_SPAN_METERS = 200;
+
+/**
+ * Draws the bazaar outline (or catchment circle), the shop and the user from
+ * gazetteer and directory data alone, so it works without map tiles or a
+ * connection. Coordinates are projected to metres around the shop.
+ */
+const ShopMap: React.FC<ShopMapProps> = ({ shop, bazaar, neighbours, position }) => {
+  const origin = shop.coordinates;
+  const metersPerLon = 111320 * Math.cos(origin.latitude * Math.PI / 180);
+  const project = (point: Coordinates): [number, number] => [
+    (point.longitude - origin.longitude) * metersPerLon,
+    (origin.latitude - point.latitude) * 110574,
+  ];
+
+  const outline = bazaar?.polygon?.map(([latitude, longitude]) => project({ latitude, longitude }));
+  const centre = bazaar ? project(bazaar.centroid) : null;
+  const user = position ? project(position) : null;
+  const showUser = user !== null && Math.hypot(user[0], user[1]) <= MAX_POSITION_DISTANCE;
+
+  const points: [number, number][] = [[0, 0], ...(outline ?? [])];
+  if (centre && !outline && bazaar) {
+    points.push([centre[0] - bazaar.radiusMeters, centre[1] - bazaar.radiusMeters], [centre[0] + bazaar.radiusMeters, centre[1] + bazaar.radiusMeters]);
+  }
+  if (showUser) points.push(user);
+
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const span = Math.max(MIN_SPAN_METERS, Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) * 1.25;
+  const midX = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const midY = (Math.max(...ys) + Math.min(...ys)) / 2;
+  const unit = span / 60;
+
+  return (
+    <svg
+      role="img"
+      aria-label={`Map of ${shop.name}${bazaar ? ` in ${bazaar.name}` : ''}`}
+      viewBox={`${midX - span / 2} ${midY - span / 2} ${span} ${span}`}
+      className="w-full aspect-square rounded-[2rem] bg-teal-50/60 border border-teal-100"
+    >
+      {outline && (
+        <polygon points={outline.map(point => point.join(',')).join(' ')} className="fill-amber-100/70 stroke-amber-300" strokeWidth={unit / 3} strokeLinejoin="round" />
+      )}
+      {!outline && centre && bazaar && (
+        <circle cx={centre[0]} cy={centre[1]} r={bazaar.radiusMeters} className="fill-amber-100/60 stroke-amber-300" strokeWidth={unit / 3} strokeDasharray={`${unit} ${unit}`} />
+      )}
+      {neighbours.map(other => {
+        const [x, y] = project(other.coordinates);
+        return <circle key={other.id} cx={x} cy={y} r={unit * 0.8} className="fill-teal-300" />;
+      })}
+      {showUser && (
+        <>
+          <line x1={user[0]} y1={user[1]} x2={0} y2={0} className="stroke-teal-500" strokeWidth={unit / 2} strokeDasharray={`${unit * 1.5} ${unit}`} strokeLinecap="round" />
+          <circle cx={user[0]} cy={user[1]} r={unit * 2.5} className="fill-sky-400/25" />
+          <circle cx={user[0]} cy={user[1]} r={unit * 1.2} className="fill-sky-500 stroke-white" strokeWidth={unit / 2} />
+        </>
+      )}
+      <g transform={`translate(0 ${-unit * 3})`}>
+        <path d={`M0 ${unit * 3} L${-unit * 1.6} ${unit * 0.4} A${unit * 2} ${unit * 2} 0 1 1 ${unit * 1.6} ${unit * 0.4} Z`} className="fill-amber-500 stroke-white" strokeWidth={unit / 3} />
+        <circle cx={0} cy={-unit * 0.8} r={unit * 0.8} className="fill-white" />
+      </g>
+      <text x={midX - span / 2 + unit * 2} y={midY - span / 2 + unit * 4} fontSize={unit * 2.4} className="fill-teal-900/40 font-black">N ↑</text>
+    </svg>
+  );
+};
+
+export default ShopMap;
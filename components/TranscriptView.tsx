@@ -0,0 +1,57 @@
+import React from 'react';
+import { TranscriptRecord } from '../types.ts';
+import { LANGUAGE_LABELS } from '../services/cityProfiles.ts';
+import { downloadTranscript, speakerLabel } from '../services/transcripts.ts';
+
+interface TranscriptViewProps {
+  transcript: TranscriptRecord;
+  /** Opens the scan the conversation was about, when it is still stored. */
+  onOpenScan?: (scanId: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString(undefined, { timeStyle: 'short' });
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({ transcript, onOpenScan, onClose }) => {
+  const durationMinutes = transcript.endedAt ? Math.max(1, Math.round((transcript.endedAt - transcript.timestamp) / 60000)) : null;
+
+  return (
+    <div className="bg-white rounded-[3rem] elegant-shadow p-8 md:p-12 animate-in fade-in slide-in-from-bottom-4 duration-500 border border-teal-50">
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Bridge Transcript &bull; {LANGUAGE_LABELS[transcript.sellerLanguage]}</span>
+          <h2 className="text-2xl md:text-3xl font-black text-teal-950 tracking-tighter">{transcript.objectName}</h2>
+          <p className="text-teal-900/50 text-xs font-semibold mt-1">
+            {new Date(transcript.timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+            {transcript.endedAt && <> &ndash; {formatTime(transcript.endedAt)}</>}
+            {durationMinutes !== null && <> &bull; {durationMinutes} min</>}
+          </p>
+        </div>
+        {transcript.scanId && onOpenScan && (
+          <button onClick={() => onOpenScan(transcript.scanId!)} className="shrink-0 px-4 py-2.5 rounded-xl bg-teal-50 text-teal-700 text-[9px] font-black uppercase tracking-widest">View Item</button>
+        )}
+      </div>
+
+      <div className="bg-teal-950 rounded-[2rem] p-5 md:p-6 mb-8 max-h-[50vh] overflow-y-auto space-y-4 custom-scrollbar">
+        {transcript.messages.map(message => (
+          <div key={message.id} className={`flex flex-col ${message.role === 'traveler' ? 'items-start' : 'items-end'}`}>
+            <span className={`text-[8px] font-black uppercase mb-1.5 tracking-widest ${message.role === 'traveler' ? 'text-teal-500' : 'text-amber-500'}`}>
+              {speakerLabel(message, transcript.sellerLanguage)}{message.timestamp && <> &bull; {formatTime(message.timestamp)}</>}
+            </span>
+            <div className={`max-w-[85%] p-4 rounded-2xl text-xs md:text-sm font-semibold ${message.translation ? 'italic opacity-80' : ''} ${message.role === 'traveler' ? 'bg-teal-900 text-teal-100 border-l-4 border-teal-500' : 'bg-teal-800 text-white border-r-4 border-amber-500'}`}>
+              {message.text}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-3 mb-4">
+        <button onClick={() => downloadTranscript(transcript, 'text')} className="flex-1 py-4 rounded-2xl bg-amber-100 text-amber-700 font-black text-[10px] uppercase tracking-[0.3em] btn-elegant">Export Text</button>
+        <button onClick={() => downloadTranscript(transcript, 'json')} className="flex-1 py-4 rounded-2xl bg-amber-100 text-amber-700 font-black text-[10px] uppercase tracking-[0.3em] btn-elegant">Export JSON</button>
+      </div>
+      <button onClick={onClose} className="w-full py-6 bg-teal-900 text-white rounded-3xl font-black text-xs uppercase tracking-[0.4em] btn-elegant shadow-2xl shadow-teal-900/20">Back to Log</button>
+    </div>
+  );
+};
+
+export default TranscriptView;
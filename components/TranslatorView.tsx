@@ -0,0 +1,28 @@
+import React from 'react';
+import { CityProfile, TranscriptRecord } from '../types.ts';
+import LiveBridgePanel from './LiveBridgePanel.tsx';
+
+interface TranslatorViewProps {
+  profile: CityProfile;
+  onSaveTranscript: (transcript: TranscriptRecord) => void;
+  onClose: () => void;
+}
+
+/** The Live Bridge on its own, for conversations that don't start from a scanned item. */
+const TranslatorView: React.FC<TranslatorViewProps> = ({ profile, onSaveTranscript, onClose }) => {
+  return (
+    <div className="bg-white/90 backdrop-blur-xl rounded-[2.5rem] elegant-shadow p-6 md:p-10 animate-in fade-in slide-in-from-bottom-6 duration-700 ease-out border border-white/50">
+      <div className="mb-6">
+        <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">{profile.name} &bull; Live Bridge</span>
+        <h2 className="text-2xl md:text-4xl font-extrabold text-teal-900 tracking-tight">Translator</h2>
+        <p className="text-teal-900/50 text-xs font-semibold mt-1">Talk with any seller. Conversations are saved to your log.</p>
+      </div>
+
+      <LiveBridgePanel profile={profile} objectName="Translator conversation" onSaveTranscript={onSaveTranscript} />
+
+      <button onClick={onClose} className="w-full py-5 rounded-2xl bg-white text-teal-400 font-black text-[10px] uppercase tracking-[0.3em] border border-teal-100 transition-transform active:scale-95">Back to Discovery</button>
+    </div>
+  );
+};
+
+export default TranslatorView;
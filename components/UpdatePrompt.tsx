@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface UpdatePromptProps {
+  onReload: () => void;
+  onDismiss: () => void;
+}
+
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onReload, onDismiss }) => (
+  <div className="fixed bottom-6 left-1/2 -translate-x-1/2 w-[calc(100%-3rem)] max-w-md z-[100] bg-teal-950 text-white rounded-[2rem] p-5 pl-7 shadow-2xl flex items-center gap-4 animate-in slide-in-from-bottom-4">
+    <div className="flex-1">
+      <p className="text-[10px] font-black uppercase tracking-[0.3em] text-amber-400">Update Ready</p>
+      <p className="text-xs font-semibold text-teal-100/80 mt-1">A new version of Bazaar-Sense is available.</p>
+    </div>
+    <button onClick={onDismiss} className="px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-teal-300/60">Later</button>
+    <button onClick={onReload} className="px-5 py-3 rounded-xl bg-amber-500 text-white text-[10px] font-black uppercase tracking-widest btn-elegant shadow-lg">Reload</button>
+  </div>
+);
+
+export default UpdatePrompt;
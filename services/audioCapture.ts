@@ -0,0 +1,208 @@
+import { Blob } from "@google/genai";
+
+/** Sample rate the Live API expects for input audio. */
+export const CAPTURE_SAMPLE_RATE = 16000;
+
+export interface AudioCaptureOptions {
+  /** Receives each batch of 16 kHz PCM that should be streamed. */
+  onChunk: (chunk: Blob) => void;
+  /** Fired once the speaker has gone quiet and streaming has paused. */
+  onSpeechEnd?: () => void;
+  /** RMS level of every batch, voiced or not, for level meters. */
+  onLevel?: (rms: number) => void;
+  /** Audio per message posted from the worklet. Defaults to 100 ms. */
+  batchMs?: number;
+  /** RMS below which a batch counts as silence. 0 streams everything. */
+  vadThreshold?: number;
+  /** How long to keep streaming after speech stops so the model hears the pause. */
+  hangoverMs?: number;
+}
+
+export interface AudioCapture {
+  readonly stream: MediaStream;
+  stop: () => void;
+}
+
+const PROCESSOR_NAME = 'bazaar-pcm-capture';
+
+/**
+ * Runs on the audio rendering thread: downsamples to the target rate with a
+ * box filter, converts to Int16, batches, base64-encodes, and drops silent
+ * batches beyond the hangover. One silent batch is held back as pre-roll so
+ * the first syllable after a pause is not clipped.
+ */
+const PROCESSOR_SOURCE = `
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// btoa does not exist on the audio thread.
+function toBase64(bytes) {
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += BASE64[n >> 18] + BASE64[(n >> 12) & 63] + BASE64[(n >> 6) & 63] + BASE64[n & 63];
+  }
+  if (i < bytes.length) {
+    const n = (bytes[i] << 16) | ((i + 1 < bytes.length ? bytes[i + 1] : 0) << 8);
+    out += BASE64[n >> 18] + BASE64[(n >> 12) & 63] + (i + 1 < bytes.length ? BASE64[(n >> 6) & 63] : '=') + '=';
+  }
+  return out;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const o = options.processorOptions;
+    this.ratio = sampleRate / o.targetRate;
+    this.batchSize = o.batchSize;
+    this.threshold = o.vadThreshold;
+    this.hangover = o.hangoverBatches;
+    this.batch = new Int16Array(this.batchSize);
+    this.length = 0;
+    this.sumSquares = 0;
+    this.phase = 0;
+    this.acc = 0;
+    this.accCount = 0;
+    this.silentBatches = Infinity;
+    this.preRoll = null;
+  }
+
+  push(value) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.batch[this.length++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    this.sumSquares += s * s;
+    if (this.length === this.batchSize) this.flush();
+  }
+
+  send(batch, rms) {
+    this.port.postMessage({ type: 'audio', data: toBase64(new Uint8Array(batch.buffer)), rms });
+  }
+
+  flush() {
+    const batch = this.batch;
+    const rms = Math.sqrt(this.sumSquares / this.batchSize);
+    this.batch = new Int16Array(this.batchSize);
+    this.length = 0;
+    this.sumSquares = 0;
+
+    if (rms >= this.threshold) {
+      if (this.silentBatches > this.hangover && this.preRoll) {
+        this.send(this.preRoll, 0);
+      }
+      this.preRoll = null;
+      this.silentBatches = 0;
+      this.send(batch, rms);
+      return;
+    }
+
+    this.silentBatches++;
+    if (this.silentBatches <= this.hangover) {
+      this.send(batch, rms);
+      if (this.silentBatches === this.hangover) this.port.postMessage({ type: 'speechEnd' });
+    } else {
+      this.preRoll = batch;
+      this.port.postMessage({ type: 'level', rms });
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      this.acc += channel[i];
+      this.accCount++;
+      this.phase += 1;
+      if (this.phase >= this.ratio) {
+        const value = this.acc / this.accCount;
+        this.acc = 0;
+        this.accCount = 0;
+        while (this.phase >= this.ratio) {
+          this.phase -= this.ratio;
+          this.push(value);
+        }
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+let moduleUrl: string | null = null;
+
+function processorModuleUrl(): string {
+  if (!moduleUrl) {
+    moduleUrl = URL.createObjectURL(new window.Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  }
+  return moduleUrl;
+}
+
+/**
+ * Opens the microphone and streams voiced 16 kHz PCM batches to `onChunk`.
+ * The context runs at the device's native rate; resampling happens in the
+ * worklet so it does not depend on the browser honouring a requested rate.
+ */
+export async function startAudioCapture(options: AudioCaptureOptions): Promise<AudioCapture> {
+  const { onChunk, onSpeechEnd, onLevel, batchMs = 100, vadThreshold = 0.01, hangoverMs = 800 } = options;
+
+  if (typeof AudioWorkletNode === 'undefined') {
+    throw new Error('This browser does not support AudioWorklet audio capture.');
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+  });
+  const context = new AudioContext();
+
+  try {
+    await context.audioWorklet.addModule(processorModuleUrl());
+  } catch (err) {
+    stream.getTracks().forEach(t => t.stop());
+    context.close();
+    throw err;
+  }
+
+  const batchSize = Math.round(CAPTURE_SAMPLE_RATE * batchMs / 1000);
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: {
+      targetRate: CAPTURE_SAMPLE_RATE,
+      batchSize,
+      vadThreshold,
+      hangoverBatches: Math.max(1, Math.round(hangoverMs / batchMs)),
+    },
+  });
+
+  node.port.onmessage = (event: MessageEvent) => {
+    const message = event.data;
+    if (message.type === 'audio') {
+      onLevel?.(message.rms);
+      onChunk({ data: message.data, mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}` });
+    } else if (message.type === 'level') {
+      onLevel?.(message.rms);
+    } else if (message.type === 'speechEnd') {
+      onSpeechEnd?.();
+    }
+  };
+
+  source.connect(node);
+  // The worklet writes nothing to its output; connecting it keeps it pulled by the graph.
+  node.connect(context.destination);
+
+  let stopped = false;
+  return {
+    stream,
+    stop: () => {
+      if (stopped) return;
+      stopped = true;
+      node.port.onmessage = null;
+      try { source.disconnect(); node.disconnect(); } catch (e) {}
+      stream.getTracks().forEach(t => t.stop());
+      if (context.state !== 'closed') context.close();
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { BargainPlan, suggestCounter } from './bargaining.ts';
+
+const PLAN: BargainPlan = { category: 'footwear', opening: 1500, target: 2000, walkAway: 2400, tips: [] };
+
+describe('suggestCounter', () => {
+  it('accepts an asking price at or below the target', () => {
+    expect(suggestCounter(PLAN, 1900)).toMatchObject({ action: 'accept', offer: 1900 });
+  });
+
+  it('opens low against a price far above the walk-away', () => {
+    expect(suggestCounter(PLAN, 5000)).toMatchObject({ action: 'counter', offer: 1500 });
+  });
+
+  it('never counters below the last offer', () => {
+    // We met in the middle at 2150, above the target; the seller then jumps back up.
+    expect(suggestCounter(PLAN, 5000, 2150, 1)).toMatchObject({ action: 'counter', offer: 2150 });
+    expect(suggestCounter(PLAN, 2600, 2350, 2).offer).toBeGreaterThanOrEqual(2350);
+    expect(suggestCounter(PLAN, 2380, 2370, 2)).toMatchObject({ action: 'accept', offer: 2380 });
+  });
+});
@@ -0,0 +1,272 @@
+import { CityProfile, MarketMatch, PriceRange } from "../types.ts";
+import { BazaarEntry, getBazaar } from "./gazetteer.ts";
+import { formatPKR } from "./pricing.ts";
+
+export type ItemCategory =
+  | 'textiles'
+  | 'footwear'
+  | 'spices'
+  | 'dryFruit'
+  | 'jewelry'
+  | 'carpets'
+  | 'handicrafts'
+  | 'electronics'
+  | 'general';
+
+export type BargainStage = 'opening' | 'counter' | 'closing' | 'walkaway';
+
+export interface Phrase {
+  id: string;
+  stage: BargainStage;
+  english: string;
+  urdu: { text: string; phonetic: string };
+  pashto: { text: string; phonetic: string };
+}
+
+export interface BargainPlan {
+  category: ItemCategory;
+  opening: number;
+  target: number;
+  walkAway: number;
+  tips: string[];
+}
+
+export interface CounterSuggestion {
+  action: 'accept' | 'counter' | 'walk';
+  /** What to offer next; equals the asking price when accepting. */
+  offer: number;
+  phraseId: string;
+  message: string;
+}
+
+const CATEGORY_KEYWORDS: [ItemCategory, RegExp][] = [
+  ['footwear', /chappal|sandal|khussa|shoe|slipper|boot|kheri/i],
+  ['carpets', /carpet|rug|kilim|gabba|namda/i],
+  ['jewelry', /jewel|ring|necklace|bangle|earring|gold|silver|gem|stone|lapis|emerald|ruby|bracelet/i],
+  ['spices', /spice|masala|chilli|chili|saffron|zafran|cumin|zeera|turmeric|haldi|cardamom|elaichi|pepper|salt/i],
+  ['dryFruit', /dry ?fruit|almond|badam|walnut|akhrot|pistachio|pista|apricot|raisin|kishmish|fig|anjeer|date|khajoor|pine ?nut|chilgoza/i],
+  ['textiles', /shawl|fabric|cloth|kurta|shalwar|kameez|dupatta|chaddar|ajrak|silk|cotton|pashmina|wool|embroider|lawn|khaddar|cap|topi|pakol/i],
+  ['electronics', /phone|charger|cable|headphone|speaker|watch|camera|electronic|battery/i],
+  ['handicrafts', /copper|brass|pottery|ceramic|wood|carved|lamp|onyx|marble|truck art|lacquer|basket|handicraft|souvenir/i],
+];
+
+/** How far below the low end of the range to open, per category. Bigger for items with large tourist markups. */
+const OPENING_DISCOUNT: Record<ItemCategory, number> = {
+  textiles: 0.2,
+  footwear: 0.15,
+  spices: 0.1,
+  dryFruit: 0.1,
+  jewelry: 0.2,
+  carpets: 0.3,
+  handicrafts: 0.3,
+  electronics: 0.08,
+  general: 0.15,
+};
+
+const CATEGORY_TIPS: Record<ItemCategory, string[]> = {
+  textiles: [
+    'Rub the fabric and check the weave on the reverse; machine embroidery is much cheaper than hand work.',
+    'Ask for the price per suit or per meter before choosing a design, so the number is set before you look keen.',
+  ],
+  footwear: [
+    'Try both shoes on and walk a few steps; stitched soles last far longer than glued ones.',
+    'Chappals are sold in every lane; say you will compare with the next shop if the price will not move.',
+  ],
+  spices: [
+    'Spices are priced by weight, so bargain on the per-kg rate rather than the bag total.',
+    'Smell before buying; fresh whole spices are worth a small premium over pre-ground ones.',
+  ],
+  dryFruit: [
+    'Ask to taste one; grade and freshness move the price more than anything else.',
+    'Buying 1 kg or more usually earns a better per-kg rate — say how much you want up front.',
+  ],
+  jewelry: [
+    'Gold and silver are priced by weight plus a making charge; ask for both separately.',
+    'Gemstones are often treated or glass. Unless you can test them, pay only what you would for costume jewellery.',
+  ],
+  carpets: [
+    'Opening asks on carpets can be double the fair price; expect several rounds and tea.',
+    'Count knots on the back and check the fringe is part of the weave, not sewn on.',
+  ],
+  handicrafts: [
+    'Souvenir pieces carry the biggest markups; do not be shy about opening low.',
+    'Buying several small pieces together gives you room to ask for one free or a bundle price.',
+  ],
+  electronics: [
+    'Margins on electronics are thin; aim for a small discount or a free accessory instead.',
+    'Test the item in the shop and ask whether there is any warranty.',
+  ],
+  general: [
+    'Smile, greet with "Assalam-o-Alaikum", and never show strong interest in a single item.',
+  ],
+};
+
+export const BARGAIN_PHRASES: Phrase[] = [
+  {
+    id: 'how-much',
+    stage: 'opening',
+    english: 'How much is this?',
+    urdu: { text: 'یہ کتنے کا ہے؟', phonetic: 'Yeh kitnay ka hai?' },
+    pashto: { text: 'دا په څو دی؟', phonetic: 'Da pa tso dey?' },
+  },
+  {
+    id: 'too-expensive',
+    stage: 'counter',
+    english: 'That is too expensive.',
+    urdu: { text: 'یہ بہت مہنگا ہے', phonetic: 'Yeh bohat mehnga hai' },
+    pashto: { text: 'دا ډېر ګران دی', phonetic: 'Da der graan dey' },
+  },
+  {
+    id: 'fair-price',
+    stage: 'counter',
+    english: 'Please give me a fair price.',
+    urdu: { text: 'مناسب قیمت لگائیں', phonetic: 'Munasib qeemat lagayein' },
+    pashto: { text: 'مناسبه بیه راکړه', phonetic: 'Munasiba bya raakra' },
+  },
+  {
+    id: 'reduce',
+    stage: 'counter',
+    english: 'Can you reduce it a little?',
+    urdu: { text: 'تھوڑا کم کر دیں', phonetic: 'Thora kam kar dein' },
+    pashto: { text: 'لږ کم یې کړه', phonetic: 'Lag kam ye kra' },
+  },
+  {
+    id: 'cheaper-elsewhere',
+    stage: 'counter',
+    english: 'I saw it cheaper in the next shop.',
+    urdu: { text: 'ساتھ والی دکان میں سستا تھا', phonetic: 'Saath wali dukaan mein sasta tha' },
+    pashto: { text: 'په بل دوکان کې ارزان و', phonetic: 'Pa bal dukaan ke arzaan wo' },
+  },
+  {
+    id: 'buy-two',
+    stage: 'counter',
+    english: 'I will buy two if you lower the price.',
+    urdu: { text: 'اگر قیمت کم کریں تو دو لے لوں گا', phonetic: 'Agar qeemat kam karein to do le loon ga' },
+    pashto: { text: 'که بیه کمه کړې نو دوه به واخلم', phonetic: 'Ka bya kama kray no dwa ba wakhlam' },
+  },
+  {
+    id: 'final-price',
+    stage: 'closing',
+    english: 'What is your final price?',
+    urdu: { text: 'آخری قیمت کیا ہے؟', phonetic: 'Aakhri qeemat kya hai?' },
+    pashto: { text: 'وروستۍ بیه څو ده؟', phonetic: 'Wrostay bya tso da?' },
+  },
+  {
+    id: 'cash',
+    stage: 'closing',
+    english: 'I will pay cash — best price?',
+    urdu: { text: 'نقد دوں گا، بہترین قیمت؟', phonetic: 'Naqd doon ga, behtareen qeemat?' },
+    pashto: { text: 'نغدې پیسې درکوم، ښه بیه؟', phonetic: 'Naghdi paisay darkawam, kha bya?' },
+  },
+  {
+    id: 'deal',
+    stage: 'closing',
+    english: 'Okay, deal.',
+    urdu: { text: 'ٹھیک ہے، سودا پکا', phonetic: 'Theek hai, sauda pakka' },
+    pashto: { text: 'سمه ده، سودا شوه', phonetic: 'Sama da, sawda shwa' },
+  },
+  {
+    id: 'leave-it',
+    stage: 'walkaway',
+    english: 'No thank you, I will leave it.',
+    urdu: { text: 'نہیں شکریہ، رہنے دیں', phonetic: 'Nahin shukriya, rehne dein' },
+    pashto: { text: 'نه مننه، پرېږده یې', phonetic: 'Na manana, pregda ye' },
+  },
+];
+
+export function categorizeItem(objectName: string, description = ''): ItemCategory {
+  const text = `${objectName} ${description}`;
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'general';
+}
+
+/** Rounds to the nearest note a seller would actually quote. */
+function roundOffer(amount: number): number {
+  const step = amount >= 5000 ? 100 : amount >= 500 ? 50 : 10;
+  return Math.max(step, Math.round(amount / step) * step);
+}
+
+function bazaarTips(bazaar: BazaarEntry | undefined, category: ItemCategory, profile: CityProfile): string[] {
+  const tips: string[] = [];
+  if (bazaar) {
+    const haggling = bazaar.haggling ?? 'hard';
+    if (haggling === 'light') tips.push(`${bazaar.name} shops mostly keep fixed prices; ask for a discount on multiple items rather than haggling hard.`);
+    else if (haggling === 'moderate') tips.push(`${bazaar.name} bargains moderately; expect 10–20% off the first quote.`);
+    else tips.push(`${bazaar.name} expects hard bargaining; first quotes to visitors are often 30–50% high.`);
+
+    const speciality = bazaar.knownFor.find(item => categorizeItem(item) === category && category !== 'general');
+    if (speciality) tips.push(`${bazaar.name} is known for ${speciality}, so there is plenty of competition — compare two or three shops.`);
+  }
+  tips.push(profile.priceContext);
+  return tips;
+}
+
+/**
+ * Derives opening, target and walk-away prices from the estimate. The spread
+ * widens for categories with big tourist markups, bazaars that bargain hard,
+ * and low-confidence estimates.
+ */
+export function buildBargainPlan(
+  price: PriceRange,
+  objectName: string,
+  profile: CityProfile,
+  market?: MarketMatch,
+  description?: string
+): BargainPlan {
+  const category = categorizeItem(objectName, description);
+  const bazaar = market?.bazaarId ? getBazaar(market.bazaarId) : undefined;
+  const haggling = bazaar?.haggling ?? 'hard';
+
+  let discount = OPENING_DISCOUNT[category];
+  if (haggling === 'moderate') discount *= 0.6;
+  if (haggling === 'light') discount *= 0.3;
+  if (price.confidence === 'low') discount += 0.05;
+
+  const opening = roundOffer(price.min * (1 - discount));
+  const target = roundOffer(price.min + (price.typical - price.min) * 0.4);
+  const walkAway = roundOffer(price.typical + (price.max - price.typical) * (price.confidence === 'high' ? 0.1 : 0.25));
+
+  return {
+    category,
+    opening: Math.min(opening, target),
+    target,
+    walkAway: Math.max(walkAway, target),
+    tips: [...CATEGORY_TIPS[category], ...bazaarTips(bazaar, category, profile)],
+  };
+}
+
+/**
+ * Suggests a reply to the seller's asking price. `lastOffer` is what we
+ * offered in the previous round, if any; `round` counts rounds so far.
+ */
+export function suggestCounter(plan: BargainPlan, asking: number, lastOffer?: number, round = 0): CounterSuggestion {
+  if (asking <= plan.target) {
+    return { action: 'accept', offer: asking, phraseId: 'deal', message: `${formatPKR(asking)} is at or below your target — take it.` };
+  }
+
+  const floor = Math.max(lastOffer ?? plan.opening, plan.opening);
+  // Rounding or the target cap must never take us below what we already offered.
+  const notBelowLast = (offer: number) => Math.max(offer, lastOffer ?? 0);
+
+  if (asking <= plan.walkAway) {
+    const offer = notBelowLast(roundOffer(Math.min(asking, floor + (asking - floor) / 2)));
+    return offer >= asking
+      ? { action: 'accept', offer: asking, phraseId: 'deal', message: `Within your range — accept ${formatPKR(asking)}.` }
+      : { action: 'counter', offer, phraseId: round >= 2 ? 'final-price' : 'reduce', message: `Close to a fair price. Meet in the middle at ${formatPKR(offer)}.` };
+  }
+
+  if (round >= 3) {
+    return { action: 'walk', offer: notBelowLast(plan.walkAway), phraseId: 'leave-it', message: `Still above your walk-away of ${formatPKR(plan.walkAway)}. Thank them and start walking — sellers often call you back.` };
+  }
+
+  if (asking > plan.walkAway * 1.3) {
+    const offer = lastOffer ? notBelowLast(roundOffer(Math.min(lastOffer * 1.05, plan.target))) : plan.opening;
+    return { action: 'counter', offer, phraseId: 'too-expensive', message: `Far above the fair range. Hold firm and offer ${formatPKR(offer)}.` };
+  }
+
+  const offer = notBelowLast(roundOffer(Math.max(floor, Math.min(plan.target, floor + (plan.walkAway - floor) / 3))));
+  return { action: 'counter', offer, phraseId: 'cheaper-elsewhere', message: `Above your walk-away price. Counter with ${formatPKR(offer)} and mention other shops.` };
+}
+
+export function getPhrase(id: string): Phrase | undefined {
+  return BARGAIN_PHRASES.find(p => p.id === id);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { captureRegion, coverMapping, pinchZoom, readCapabilities } from './cameraControls.ts';
+
+const fakeTrack = (capabilities: Record<string, unknown>) =>
+  ({ getCapabilities: () => capabilities }) as unknown as MediaStreamTrack;
+
+describe('camera controls', () => {
+  it('reads zoom, torch and focus support from the track', () => {
+    expect(readCapabilities(fakeTrack({ zoom: { min: 1, max: 5, step: 0.5 }, torch: true, focusMode: ['continuous', 'single-shot'] })))
+      .toEqual({ zoom: { min: 1, max: 5, step: 0.5 }, torch: true, focus: true });
+    expect(readCapabilities(fakeTrack({ zoom: { min: 1, max: 1 } }))).toEqual({ zoom: undefined, torch: false, focus: false });
+    expect(readCapabilities({} as MediaStreamTrack)).toEqual({ zoom: undefined, torch: false, focus: false });
+  });
+
+  it('scales a pinch into the zoom range on its step', () => {
+    const range = { min: 1, max: 4, step: 0.5 };
+    expect(pinchZoom(1, 100, 220, range)).toBe(2);
+    expect(pinchZoom(2, 100, 10, range)).toBe(1);
+    expect(pinchZoom(3, 100, 400, range)).toBe(4);
+  });
+
+  it('sends whole frames at 1024 wide and detail crops at native resolution', () => {
+    expect(captureRegion(1920, 1080, false)).toEqual({ sx: 0, sy: 0, sw: 1920, sh: 1080, width: 1024, height: 576 });
+    expect(captureRegion(1920, 1080, true)).toEqual({ sx: 480, sy: 270, sw: 960, sh: 540, width: 960, height: 540 });
+    expect(captureRegion(4096, 3072, true).width).toBe(2048);
+  });
+
+  it('maps taps on a cropped preview back onto the frame', () => {
+    // A 16:9 frame shown in a square element loses its left and right edges.
+    const { toFrame, detailBox } = coverMapping(400, 400, 1600, 900);
+    expect(toFrame(200, 200)).toEqual({ x: 0.5, y: 0.5 });
+    expect(toFrame(0, 0).x).toBeCloseTo(0.21875);
+    expect(detailBox.top).toBeCloseTo(25);
+    expect(detailBox.height).toBeCloseTo(50);
+    expect(detailBox.width).toBeCloseTo(88.9, 1);
+  });
+});
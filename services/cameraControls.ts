@@ -0,0 +1,133 @@
+/**
+ * Zoom, torch and focus through `MediaStreamTrack` constraints. These are
+ * only in the Image Capture spec, so the DOM typings don't know them and
+ * each one is feature-checked against the track's capabilities first.
+ */
+
+interface RangeCapability {
+  min: number;
+  max: number;
+  step?: number;
+}
+
+interface ImageTrackCapabilities extends MediaTrackCapabilities {
+  zoom?: RangeCapability;
+  torch?: boolean;
+  focusMode?: string[];
+  pointsOfInterest?: unknown;
+}
+
+/** What the active camera lets us change. Missing fields mean unsupported. */
+export interface CameraCapabilities {
+  zoom?: { min: number; max: number; step: number };
+  torch: boolean;
+  /** Can focus on a tapped point rather than only continuously. */
+  focus: boolean;
+}
+
+/** Normal captures are scaled to this width, as before. */
+export const CAPTURE_WIDTH = 1024;
+/** Detail captures keep native pixels up to this long side. */
+export const DETAIL_MAX_SIZE = 2048;
+/** Share of the frame's width and height kept by a detail capture, centred. */
+export const DETAIL_CROP = 0.5;
+
+export function readCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  const caps = (track.getCapabilities?.() ?? {}) as ImageTrackCapabilities;
+  const zoom = caps.zoom && caps.zoom.max > caps.zoom.min
+    ? { min: caps.zoom.min, max: caps.zoom.max, step: caps.zoom.step || 0.1 }
+    : undefined;
+  return {
+    zoom,
+    torch: caps.torch === true,
+    focus: caps.pointsOfInterest !== undefined || (caps.focusMode ?? []).includes('single-shot'),
+  };
+}
+
+function applyAdvanced(track: MediaStreamTrack, constraint: Record<string, unknown>): Promise<void> {
+  return track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] });
+}
+
+export function setZoom(track: MediaStreamTrack, zoom: number): Promise<void> {
+  return applyAdvanced(track, { zoom });
+}
+
+export function setTorch(track: MediaStreamTrack, on: boolean): Promise<void> {
+  return applyAdvanced(track, { torch: on });
+}
+
+/** Focuses on a point given as fractions of the frame, then leaves focus where it landed. */
+export async function focusAt(track: MediaStreamTrack, x: number, y: number): Promise<void> {
+  const caps = (track.getCapabilities?.() ?? {}) as ImageTrackCapabilities;
+  const constraint: Record<string, unknown> = {};
+  if (caps.pointsOfInterest !== undefined) constraint.pointsOfInterest = [{ x, y }];
+  if ((caps.focusMode ?? []).includes('single-shot')) constraint.focusMode = 'single-shot';
+  await applyAdvanced(track, constraint);
+}
+
+/** Video inputs on the device. Labels stay empty until camera permission is granted. */
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+}
+
+/** Zoom after a pinch, clamped to the camera's range and snapped to its step. */
+export function pinchZoom(startZoom: number, startDistance: number, distance: number, range: { min: number; max: number; step: number }): number {
+  const raw = startZoom * (distance / Math.max(1, startDistance));
+  const snapped = Math.round(raw / range.step) * range.step;
+  return Math.min(range.max, Math.max(range.min, snapped));
+}
+
+export interface CaptureRegion {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Source rectangle and output size for a capture. Normal captures take the
+ * whole frame at `CAPTURE_WIDTH`; detail captures take the centre of the
+ * frame without downscaling, so small goods keep their texture.
+ */
+export function captureRegion(videoWidth: number, videoHeight: number, detail: boolean): CaptureRegion {
+  if (!detail) {
+    const scale = CAPTURE_WIDTH / videoWidth;
+    return { sx: 0, sy: 0, sw: videoWidth, sh: videoHeight, width: CAPTURE_WIDTH, height: Math.round(videoHeight * scale) };
+  }
+  const sw = Math.round(videoWidth * DETAIL_CROP);
+  const sh = Math.round(videoHeight * DETAIL_CROP);
+  const scale = Math.min(1, DETAIL_MAX_SIZE / Math.max(sw, sh));
+  return {
+    sx: Math.round((videoWidth - sw) / 2),
+    sy: Math.round((videoHeight - sh) / 2),
+    sw,
+    sh,
+    width: Math.round(sw * scale),
+    height: Math.round(sh * scale),
+  };
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Maps between an `object-fit: cover` video element and the camera frame it
+ * crops: `toFrame` turns a tap into frame fractions, `detailBox` gives the
+ * detail crop as percentages of the element for the on-screen guide.
+ */
+export function coverMapping(elementWidth: number, elementHeight: number, videoWidth: number, videoHeight: number) {
+  const scale = Math.max(elementWidth / videoWidth, elementHeight / videoHeight);
+  const shownWidth = videoWidth * scale;
+  const shownHeight = videoHeight * scale;
+  const offsetX = (elementWidth - shownWidth) / 2;
+  const offsetY = (elementHeight - shownHeight) / 2;
+  const boxWidth = Math.min(1, (shownWidth * DETAIL_CROP) / elementWidth);
+  const boxHeight = Math.min(1, (shownHeight * DETAIL_CROP) / elementHeight);
+  return {
+    toFrame: (x: number, y: number) => ({ x: clamp01((x - offsetX) / shownWidth), y: clamp01((y - offsetY) / shownHeight) }),
+    detailBox: { left: (1 - boxWidth) * 50, top: (1 - boxHeight) * 50, width: boxWidth * 100, height: boxHeight * 100 },
+  };
+}
@@ -0,0 +1,67 @@
+import { nameWords } from "./shopDirectory.ts";
+
+/** A canonical item that differently-worded analyses and log entries are grouped under. */
+export interface CanonicalItem {
+  id: string;
+  name: string;
+  /** Phrases that identify the item in a name; every word of a phrase must appear. */
+  keywords: string[];
+}
+
+export const CANONICAL_ITEMS: CanonicalItem[] = [
+  { id: 'peshawari-chappal', name: 'Peshawari Chappal', keywords: ['chappal', 'chapal', 'kaptaan', 'charsadda'] },
+  { id: 'khussa', name: 'Khussa', keywords: ['khussa', 'khusa', 'jutti'] },
+  { id: 'almonds', name: 'Almonds', keywords: ['almond', 'badam'] },
+  { id: 'pistachios', name: 'Pistachios', keywords: ['pistachio', 'pista'] },
+  { id: 'walnuts', name: 'Walnuts', keywords: ['walnut', 'akhrot'] },
+  { id: 'raisins', name: 'Raisins', keywords: ['raisin', 'kishmish', 'munakka'] },
+  { id: 'dried-apricots', name: 'Dried Apricots', keywords: ['dried apricot', 'khubani'] },
+  { id: 'saffron', name: 'Saffron', keywords: ['saffron', 'zafran'] },
+  { id: 'pink-salt', name: 'Himalayan Pink Salt', keywords: ['pink salt', 'rock salt', 'lahori namak'] },
+  { id: 'green-tea', name: 'Green Tea (Kehwa)', keywords: ['kehwa', 'kahwa', 'green tea'] },
+  { id: 'pashmina-shawl', name: 'Pashmina Shawl', keywords: ['pashmina'] },
+  { id: 'wool-shawl', name: 'Wool Shawl', keywords: ['shawl', 'chadar', 'patoo'] },
+  { id: 'ajrak', name: 'Ajrak', keywords: ['ajrak'] },
+  { id: 'sindhi-cap', name: 'Sindhi Cap', keywords: ['sindhi cap', 'sindhi topi'] },
+  { id: 'chitrali-cap', name: 'Chitrali Cap', keywords: ['chitrali', 'pakol'] },
+  { id: 'copper-kettle', name: 'Copper Kettle', keywords: ['copper kettle', 'copper teapot', 'tanbe ki ketli'] },
+  { id: 'copperware', name: 'Copperware', keywords: ['copper', 'brass'] },
+  { id: 'hand-knotted-rug', name: 'Hand-knotted Rug', keywords: ['rug', 'carpet', 'kilim', 'qaleen'] },
+  { id: 'lapis-lazuli', name: 'Lapis Lazuli', keywords: ['lapis'] },
+  { id: 'onyx', name: 'Onyx Carving', keywords: ['onyx'] },
+  { id: 'truck-art', name: 'Truck Art', keywords: ['truck art'] },
+];
+
+function nameTokens(name: string): string[] {
+  // Crude singular so "almonds" and "almond" meet; short words are left alone.
+  return nameWords(name).map(token => (token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+/**
+ * The canonical item for an item name. Longer keyword phrases win, so
+ * "Copper Kettle" lands in `copper-kettle` rather than `copperware`.
+ */
+export function canonicalItem(objectName: string): CanonicalItem | null {
+  const tokens = nameTokens(objectName);
+  let best: { item: CanonicalItem; length: number } | null = null;
+  for (const item of CANONICAL_ITEMS) {
+    for (const keyword of item.keywords) {
+      const words = nameTokens(keyword);
+      if (words.every(word => tokens.includes(word)) && (!best || words.length > best.length)) {
+        best = { item, length: words.length };
+      }
+    }
+  }
+  return best?.item ?? null;
+}
+
+/**
+ * Key to group an item under: its canonical item id, or for items outside the
+ * catalogue a key from the normalised name, so identical names still group.
+ */
+export function itemKey(objectName: string): string {
+  return canonicalItem(objectName)?.id ?? `name:${nameTokens(objectName).join('-')}`;
+}
+
+export function itemKeyLabel(key: string, fallbackName: string): string {
+  return CANONICAL_ITEMS.find(item => item.id === key)?.name ?? fallbackName;
+}
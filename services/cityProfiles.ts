@@ -0,0 +1,121 @@
+import { CityProfile, MarketMatch, SellerLanguage } from "../types.ts";
+import { getBazaarsInCity } from "./gazetteer.ts";
+
+const PROFILE_SELECTION_KEY = 'bazaar_city_profile';
+
+export const LANGUAGE_LABELS: Record<SellerLanguage, string> = {
+  urdu: 'Urdu',
+  pashto: 'Pashto',
+  punjabi: 'Punjabi',
+  sindhi: 'Sindhi',
+  balochi: 'Balochi',
+  hindko: 'Hindko',
+};
+
+export const CITY_PROFILES: CityProfile[] = [
+  {
+    id: 'peshawar',
+    name: 'Peshawar',
+    region: 'Khyber Pakhtunkhwa',
+    cities: ['Peshawar'],
+    sellerLanguages: ['pashto', 'urdu', 'hindko'],
+    dialectHints: {
+      pashto: 'Peshawar Yusufzai dialect',
+      urdu: 'Urdu as spoken in Peshawar',
+      hindko: 'Peshawari Hindko',
+    },
+    priceContext: 'Old-city bazaars where opening asks often run 30-50% above the fair price and bargaining is expected. Dry fruit, chappals and copperware are cheaper here than in Islamabad.',
+  },
+  {
+    id: 'lahore',
+    name: 'Lahore',
+    region: 'Punjab',
+    cities: ['Lahore'],
+    sellerLanguages: ['punjabi', 'urdu'],
+    dialectHints: {
+      punjabi: 'Lahori Majhi Punjabi',
+      urdu: 'Urdu as spoken in Lahore',
+    },
+    priceContext: 'Walled-city bazaars like Anarkali bargain hard; malls and Liberty Market shops often have fixed prices. Khussa, fabric and bangles are local specialities.',
+  },
+  {
+    id: 'karachi',
+    name: 'Karachi',
+    region: 'Sindh',
+    cities: ['Karachi'],
+    sellerLanguages: ['urdu', 'sindhi', 'pashto'],
+    dialectHints: {
+      urdu: 'Karachi Urdu',
+      sindhi: 'standard Vicholi Sindhi',
+      pashto: 'Pashto as spoken by Karachi traders',
+    },
+    priceContext: 'Saddar markets such as Zainab Market and Bohri Bazaar price higher for visitors; ajrak, Sindhi caps and leather goods are local specialities. Expect moderate bargaining.',
+  },
+  {
+    id: 'quetta',
+    name: 'Quetta',
+    region: 'Balochistan',
+    cities: ['Quetta'],
+    sellerLanguages: ['pashto', 'balochi', 'urdu'],
+    dialectHints: {
+      pashto: 'southern Kandahari Pashto',
+      balochi: 'Rakhshani Balochi',
+      urdu: 'Urdu as spoken in Quetta',
+    },
+    priceContext: 'Border-trade bazaars with Afghan and Iranian goods; carpets, gemstones and dry fruit are cheaper than elsewhere in Pakistan. Bargaining is expected.',
+  },
+  {
+    id: 'islamabad',
+    name: 'Islamabad & Rawalpindi',
+    region: 'Islamabad Capital Territory',
+    cities: ['Islamabad', 'Rawalpindi'],
+    sellerLanguages: ['urdu', 'punjabi', 'pashto'],
+    dialectHints: {
+      urdu: 'standard Urdu',
+      punjabi: 'Pothwari Punjabi',
+      pashto: 'general Pashto',
+    },
+    priceContext: 'Islamabad sector markets are among the most expensive in the country and often fixed-price; Raja Bazaar in Rawalpindi is wholesale and bargains hard.',
+  },
+];
+
+export const DEFAULT_PROFILE = CITY_PROFILES[0];
+
+/** `null` means the profile follows the detected location. */
+export type ProfileSelection = string | null;
+
+export function getCityProfile(id?: string | null): CityProfile | undefined {
+  return CITY_PROFILES.find(p => p.id === id);
+}
+
+export function profileForMarket(market: MarketMatch | null): CityProfile | undefined {
+  if (!market) return undefined;
+  return CITY_PROFILES.find(p => p.cities.includes(market.city));
+}
+
+/**
+ * A manual choice always wins; otherwise the detected city picks the
+ * profile, falling back to Peshawar.
+ */
+export function resolveProfile(selection: ProfileSelection, market: MarketMatch | null): CityProfile {
+  return getCityProfile(selection) ?? profileForMarket(market) ?? DEFAULT_PROFILE;
+}
+
+export function getProfileMarkets(profile: CityProfile): string[] {
+  return profile.cities.flatMap(city => getBazaarsInCity(city).map(b => b.name));
+}
+
+/** Language name with the profile's dialect hint, e.g. "Pashto (Peshawar Yusufzai dialect)". */
+export function describeLanguage(language: SellerLanguage, profile: CityProfile = DEFAULT_PROFILE): string {
+  const hint = profile.dialectHints[language];
+  return hint ? `${LANGUAGE_LABELS[language]} (${hint})` : LANGUAGE_LABELS[language];
+}
+
+export function loadProfileSelection(): ProfileSelection {
+  return localStorage.getItem(PROFILE_SELECTION_KEY);
+}
+
+export function saveProfileSelection(selection: ProfileSelection) {
+  if (selection) localStorage.setItem(PROFILE_SELECTION_KEY, selection);
+  else localStorage.removeItem(PROFILE_SELECTION_KEY);
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_RATES,
+  RATES_ENDPOINT,
+  formatHome,
+  formatHomeRange,
+  formatPKRWithHome,
+  loadCurrencySettings,
+  refreshRates,
+  setHomeCurrency,
+  setManualRate,
+  subscribeCurrencySettings,
+} from './currency.ts';
+
+const ratesResponse = (body: unknown, ok = true) => vi.fn(async () => ({ ok, status: ok ? 200 : 500, json: async () => body }) as Response);
+
+const ONLINE_BODY = {
+  result: 'success',
+  time_last_update_unix: Date.parse('2026-10-18T00:00:00Z') / 1000,
+  rates: { PKR: 1, USD: 0.004, EUR: 0.0032, GBP: 0.0025, AED: 0.0125 },
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('currency settings', () => {
+  it('defaults to rupees only with the built-in rates', () => {
+    const settings = loadCurrencySettings();
+    expect(settings.home).toBeNull();
+    expect(settings.rates).toEqual(DEFAULT_RATES);
+    expect(formatHome(1000, settings)).toBeNull();
+    expect(formatPKRWithHome(1000, settings)).toBe('Rs. 1,000');
+  });
+
+  it('ignores malformed rates and unknown currencies', () => {
+    localStorage.setItem('bazaar_currency', JSON.stringify({
+      home: 'JPY',
+      rates: { pkrPer: { USD: -3, EUR: 300 }, asOf: '2026-10-10T00:00:00.000Z', source: 'manual' },
+    }));
+    const settings = loadCurrencySettings();
+    expect(settings.home).toBeNull();
+    expect(settings.rates.pkrPer.USD).toBe(DEFAULT_RATES.pkrPer.USD);
+    expect(settings.rates.pkrPer.EUR).toBe(300);
+    expect(settings.rates.source).toBe('manual');
+  });
+
+  it('converts and formats in the home currency', () => {
+    setHomeCurrency('GBP');
+    setManualRate('GBP', 400);
+    const settings = loadCurrencySettings();
+    expect(formatHome(1000, settings)).toBe('≈ £2.50');
+    expect(formatHome(60000, settings)).toBe('≈ £150');
+    expect(formatPKRWithHome(1000, settings)).toBe('Rs. 1,000 (≈ £2.50)');
+    expect(formatHomeRange({ min: 800, typical: 1000, max: 1200, unit: 'piece', confidence: 'medium' }, settings)).toBe('≈ £2.00–£3.00');
+  });
+
+  it('rejects non-positive hand-entered rates', () => {
+    expect(() => setManualRate('USD', 0)).toThrow(RangeError);
+  });
+
+  it('notifies subscribers on save', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeCurrencySettings(listener);
+    setHomeCurrency('AED');
+    unsubscribe();
+    setHomeCurrency('USD');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('refreshRates', () => {
+  it('replaces built-in rates with online ones, inverted to PKR per unit', async () => {
+    const fetchImpl = ratesResponse(ONLINE_BODY);
+    expect(await refreshRates({ fetchImpl })).toBe(true);
+    expect(fetchImpl).toHaveBeenCalledWith(RATES_ENDPOINT);
+    const { rates } = loadCurrencySettings();
+    expect(rates.pkrPer).toEqual({ USD: 250, EUR: 312.5, GBP: 400, AED: 80 });
+    expect(rates.asOf).toBe('2026-10-18T00:00:00.000Z');
+    expect(rates.source).toBe('online');
+  });
+
+  it('skips fresh online rates and hand-entered ones unless forced', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-10-18T06:00:00Z'), toFake: ['Date'] });
+    await refreshRates({ fetchImpl: ratesResponse(ONLINE_BODY) });
+    const fetchImpl = ratesResponse(ONLINE_BODY);
+    expect(await refreshRates({ fetchImpl })).toBe(false);
+
+    setManualRate('USD', 270);
+    vi.setSystemTime(Date.parse('2026-10-25T00:00:00Z'));
+    expect(await refreshRates({ fetchImpl })).toBe(false);
+    expect(fetchImpl).not.toHaveBeenCalled();
+
+    expect(await refreshRates({ fetchImpl, force: true })).toBe(true);
+    expect(loadCurrencySettings().rates.pkrPer.USD).toBe(250);
+  });
+
+  it('keeps the saved rates when the response is unusable', async () => {
+    await expect(refreshRates({ fetchImpl: ratesResponse({ result: 'error' }) })).rejects.toThrow();
+    await expect(refreshRates({ fetchImpl: ratesResponse({ result: 'success', rates: { USD: 0.004 } }) })).rejects.toThrow('EUR');
+    expect(loadCurrencySettings().rates).toEqual(DEFAULT_RATES);
+  });
+});
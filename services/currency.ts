@@ -0,0 +1,157 @@
+import { PriceRange } from "../types.ts";
+import { formatPKR } from "./pricing.ts";
+
+const CURRENCY_SETTINGS_KEY = 'bazaar_currency';
+/** Public, keyless endpoint with daily rates; quoted as units of each currency per 1 PKR. */
+export const RATES_ENDPOINT = 'https://open.er-api.com/v6/latest/PKR';
+/** The endpoint publishes once a day, so online rates are only re-fetched after this. */
+export const RATES_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export type HomeCurrency = 'USD' | 'EUR' | 'GBP' | 'AED';
+
+export const HOME_CURRENCIES: HomeCurrency[] = ['USD', 'EUR', 'GBP', 'AED'];
+
+/** Where the current rates came from; hand-entered rates are never overwritten automatically. */
+export type RateSource = 'built-in' | 'online' | 'manual';
+
+export interface ExchangeRates {
+  /** Rupees for one unit of each currency. */
+  pkrPer: Record<HomeCurrency, number>;
+  /** ISO timestamp the rates were published or entered. */
+  asOf: string;
+  source: RateSource;
+}
+
+export interface CurrencySettings {
+  /** Shown beside every PKR price; null shows rupees only. */
+  home: HomeCurrency | null;
+  rates: ExchangeRates;
+}
+
+export const DEFAULT_RATES: ExchangeRates = {
+  pkrPer: { USD: 281, EUR: 327, GBP: 377, AED: 76.5 },
+  asOf: '2026-10-01T00:00:00.000Z',
+  source: 'built-in',
+};
+
+const defaults = (): CurrencySettings => ({ home: null, rates: { ...DEFAULT_RATES, pkrPer: { ...DEFAULT_RATES.pkrPer } } });
+
+const isRate = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isHomeCurrency = (value: unknown): value is HomeCurrency => HOME_CURRENCIES.includes(value as HomeCurrency);
+
+/** Stored settings over the defaults; a malformed rate falls back to its built-in value. */
+export function loadCurrencySettings(): CurrencySettings {
+  const settings = defaults();
+  try {
+    const saved = JSON.parse(localStorage.getItem(CURRENCY_SETTINGS_KEY) ?? '{}');
+    if (isHomeCurrency(saved?.home)) settings.home = saved.home;
+    const rates = saved?.rates;
+    if (rates && typeof rates.asOf === 'string' && !Number.isNaN(Date.parse(rates.asOf))) {
+      for (const currency of HOME_CURRENCIES) {
+        if (isRate(rates.pkrPer?.[currency])) settings.rates.pkrPer[currency] = rates.pkrPer[currency];
+      }
+      settings.rates.asOf = rates.asOf;
+      if (['built-in', 'online', 'manual'].includes(rates.source)) settings.rates.source = rates.source;
+    }
+  } catch {
+    // Fall through to the defaults.
+  }
+  return settings;
+}
+
+const listeners = new Set<() => void>();
+
+export function saveCurrencySettings(settings: CurrencySettings) {
+  localStorage.setItem(CURRENCY_SETTINGS_KEY, JSON.stringify(settings));
+  listeners.forEach(listener => listener());
+}
+
+/** Called after every save, so open views can re-read the settings. */
+export function subscribeCurrencySettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function setHomeCurrency(home: HomeCurrency | null) {
+  saveCurrencySettings({ ...loadCurrencySettings(), home });
+}
+
+/** Stores a hand-entered rate, dated now. */
+export function setManualRate(currency: HomeCurrency, pkrPerUnit: number) {
+  if (!isRate(pkrPerUnit)) throw new RangeError(`Invalid rate for ${currency}: ${pkrPerUnit}`);
+  const settings = loadCurrencySettings();
+  saveCurrencySettings({
+    ...settings,
+    rates: { pkrPer: { ...settings.rates.pkrPer, [currency]: pkrPerUnit }, asOf: new Date().toISOString(), source: 'manual' },
+  });
+}
+
+export function resetRates() {
+  saveCurrencySettings({ ...loadCurrencySettings(), rates: defaults().rates });
+}
+
+export function convertFromPKR(amountPKR: number, currency: HomeCurrency, rates: ExchangeRates): number {
+  return amountPKR / rates.pkrPer[currency];
+}
+
+/** Whole units for larger amounts, cents below 100 so small purchases don't round to nothing. */
+export function formatCurrency(amount: number, currency: HomeCurrency): string {
+  const digits = Math.abs(amount) < 100 ? 2 : 0;
+  return new Intl.NumberFormat('en', { style: 'currency', currency, minimumFractionDigits: digits, maximumFractionDigits: digits }).format(amount);
+}
+
+/** "≈ $4.30" for a PKR amount, or null when no home currency is chosen. */
+export function formatHome(amountPKR: number, settings: CurrencySettings): string | null {
+  if (!settings.home) return null;
+  return `≈ ${formatCurrency(convertFromPKR(amountPKR, settings.home, settings.rates), settings.home)}`;
+}
+
+/** "Rs. 1,200 (≈ $4.27)" for running text; just the rupees when PKR only. */
+export function formatPKRWithHome(amountPKR: number, settings: CurrencySettings): string {
+  const home = formatHome(amountPKR, settings);
+  return home ? `${formatPKR(amountPKR)} (${home})` : formatPKR(amountPKR);
+}
+
+export function formatHomeRange(range: PriceRange, settings: CurrencySettings): string | null {
+  if (!settings.home) return null;
+  if (range.min === range.max) return formatHome(range.typical, settings);
+  const min = formatCurrency(convertFromPKR(range.min, settings.home, settings.rates), settings.home);
+  const max = formatCurrency(convertFromPKR(range.max, settings.home, settings.rates), settings.home);
+  return `≈ ${min}–${max}`;
+}
+
+/**
+ * Reads today's rates. Throws when the response is unusable rather than
+ * saving a partial table.
+ */
+export async function fetchRates(fetchImpl: typeof fetch = fetch): Promise<ExchangeRates> {
+  const response = await fetchImpl(RATES_ENDPOINT);
+  if (!response.ok) throw new Error(`Rates request failed: ${response.status}`);
+  const body = await response.json();
+  if (body?.result !== 'success') throw new Error('Rates response was not successful');
+  const pkrPer = {} as Record<HomeCurrency, number>;
+  for (const currency of HOME_CURRENCIES) {
+    const perRupee = body.rates?.[currency];
+    if (!isRate(perRupee)) throw new Error(`Rates response is missing ${currency}`);
+    pkrPer[currency] = Math.round((1 / perRupee) * 100) / 100;
+  }
+  const published = typeof body.time_last_update_unix === 'number' ? body.time_last_update_unix * 1000 : Date.now();
+  return { pkrPer, asOf: new Date(published).toISOString(), source: 'online' };
+}
+
+/**
+ * Refreshes stale rates when online. Hand-entered rates are kept unless
+ * `force` is set, since a traveller's exchange-booth rate beats a mid-market one.
+ */
+export async function refreshRates(options: { force?: boolean; fetchImpl?: typeof fetch } = {}): Promise<boolean> {
+  const settings = loadCurrencySettings();
+  if (!navigator.onLine) return false;
+  if (!options.force) {
+    if (settings.rates.source === 'manual') return false;
+    if (settings.rates.source === 'online' && Date.now() - Date.parse(settings.rates.asOf) < RATES_MAX_AGE_MS) return false;
+  }
+  const rates = await fetchRates(options.fetchImpl);
+  saveCurrencySettings({ ...loadCurrencySettings(), rates });
+  return true;
+}
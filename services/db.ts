@@ -0,0 +1,95 @@
+const DB_NAME = 'bazaar-sense';
+const DB_VERSION = 4;
+
+export type StoreName = 'scans' | 'history' | 'outbox' | 'transcripts' | 'shopRatings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains('scans')) {
+    db.createObjectStore('scans', { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+  }
+  if (!db.objectStoreNames.contains('history')) {
+    db.createObjectStore('history', { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+  }
+  if (!db.objectStoreNames.contains('outbox')) {
+    db.createObjectStore('outbox', { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+  }
+  if (!db.objectStoreNames.contains('transcripts')) {
+    db.createObjectStore('transcripts', { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+  }
+  if (!db.objectStoreNames.contains('shopRatings')) {
+    db.createObjectStore('shopRatings', { keyPath: 'shopId' }).createIndex('timestamp', 'timestamp');
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  fn: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return promisify(fn(db.transaction(store, mode).objectStore(store)));
+}
+
+export function getRecord<T>(store: StoreName, key: string): Promise<T | undefined> {
+  return withStore(store, 'readonly', s => s.get(key));
+}
+
+/** All records in a store, newest first by their `timestamp` index. */
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  const records = await withStore<T[]>(store, 'readonly', s => s.index('timestamp').getAll());
+  return records.reverse();
+}
+
+export async function putRecord<T>(store: StoreName, value: T): Promise<void> {
+  await withStore(store, 'readwrite', s => s.put(value));
+}
+
+export async function putRecords<T>(store: StoreName, values: T[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  values.forEach(value => tx.objectStore(store).put(value));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function deleteRecord(store: StoreName, key: string): Promise<void> {
+  await withStore(store, 'readwrite', s => s.delete(key));
+}
+
+export async function deleteRecords(store: StoreName, keys: string[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  keys.forEach(key => tx.objectStore(store).delete(key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AuthError,
+  BazaarError,
+  NetworkError,
+  PermissionError,
+  QuotaError,
+  SafetyBlockedError,
+  assertNotBlocked,
+  classifyError,
+  parseRetryDelay,
+} from './errors.ts';
+import { AnalysisValidationError } from './validation.ts';
+
+const mediaError = (name: string) => Object.assign(new Error(`${name}: denied`), { name });
+
+describe('classifyError', () => {
+  it('reads quota errors and the suggested delay', () => {
+    const err = classifyError(new Error('429 RESOURCE_EXHAUSTED. Please retry in 12.2s.'));
+    expect(err).toBeInstanceOf(QuotaError);
+    expect((err as QuotaError).retryAfterMs).toBe(12200);
+    expect(classifyError({ status: 429, message: 'Too many requests' })).toBeInstanceOf(QuotaError);
+  });
+
+  it('falls back to a default delay when the server gives none', () => {
+    expect((classifyError(new Error('RESOURCE_EXHAUSTED')) as QuotaError).retryAfterMs).toBe(30000);
+  });
+
+  it('recognises key problems', () => {
+    expect(classifyError(new Error('400 API key not valid. Please pass a valid API key.'))).toBeInstanceOf(AuthError);
+    expect(classifyError(new Error('Requested entity was not found.'))).toBeInstanceOf(AuthError);
+    expect(classifyError({ status: 403, message: 'Forbidden' })).toBeInstanceOf(AuthError);
+  });
+
+  it('recognises safety blocks and service outages', () => {
+    expect(classifyError(new Error('Candidate was blocked due to SAFETY'))).toBeInstanceOf(SafetyBlockedError);
+    expect(classifyError(new Error('500 Rpc failed'))).toBeInstanceOf(NetworkError);
+    expect(classifyError(new TypeError('Failed to fetch'))).toBeInstanceOf(NetworkError);
+  });
+
+  it('does not take other kinds of "blocked" for a safety block', () => {
+    expect(classifyError(new TypeError('Failed to fetch: request blocked by CORS policy'))).toBeInstanceOf(NetworkError);
+    expect(classifyError(new Error('net::ERR_BLOCKED_BY_CLIENT'))).not.toBeInstanceOf(SafetyBlockedError);
+    expect(classifyError(new Error('Mixed Content: the request has been blocked'))).not.toBeInstanceOf(SafetyBlockedError);
+    expect(classifyError({ message: 'No candidates', response: { candidates: [{ finishReason: 'PROHIBITED_CONTENT' }] } })).toBeInstanceOf(SafetyBlockedError);
+  });
+
+  it('maps media errors to the device that raised them', () => {
+    const denied = classifyError(mediaError('NotAllowedError'), 'camera') as PermissionError;
+    expect(denied).toBeInstanceOf(PermissionError);
+    expect(denied.device).toBe('camera');
+    expect(denied.unavailable).toBe(false);
+
+    const missing = classifyError(mediaError('NotFoundError'), 'microphone') as PermissionError;
+    expect(missing.device).toBe('microphone');
+    expect(missing.unavailable).toBe(true);
+  });
+
+  it('passes typed errors through and keeps the rest as unknown', () => {
+    const parse = new AnalysisValidationError([{ path: '$', message: 'bad' }]);
+    expect(classifyError(parse)).toBe(parse);
+    expect(parse.kind).toBe('parse');
+
+    const unknown = classifyError(new Error('400 INVALID_ARGUMENT'));
+    expect(unknown).toBeInstanceOf(BazaarError);
+    expect(unknown.kind).toBe('unknown');
+    expect(unknown.message).toBe('400 INVALID_ARGUMENT');
+  });
+});
+
+describe('parseRetryDelay', () => {
+  it('understands both message and RetryInfo formats', () => {
+    expect(parseRetryDelay('Please retry in 3s')).toBe(3000);
+    expect(parseRetryDelay('{"retryDelay": "41s"}')).toBe(41000);
+    expect(parseRetryDelay('no hint here')).toBeUndefined();
+  });
+});
+
+describe('assertNotBlocked', () => {
+  it('throws on blocked prompts and safety finishes only', () => {
+    expect(() => assertNotBlocked({ promptFeedback: { blockReason: 'OTHER' } })).toThrow(SafetyBlockedError);
+    expect(() => assertNotBlocked({ candidates: [{ finishReason: 'IMAGE_SAFETY' }] })).toThrow(SafetyBlockedError);
+    expect(() => assertNotBlocked({ candidates: [{ finishReason: 'STOP' }] })).not.toThrow();
+  });
+});
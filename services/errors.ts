@@ -0,0 +1,160 @@
+export type ErrorKind = 'quota' | 'auth' | 'network' | 'safety' | 'parse' | 'permission' | 'unknown';
+
+export type Device = 'camera' | 'microphone';
+
+/**
+ * Base class for errors the UI knows how to explain. `message` keeps the
+ * technical detail for logs; the screens pick their copy from `kind`.
+ */
+export class BazaarError extends Error {
+  readonly kind: ErrorKind = 'unknown';
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'BazaarError';
+    if (options?.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+}
+
+/** Rate limit or daily quota hit. `retryAfterMs` comes from the server when it says. */
+export class QuotaError extends BazaarError {
+  readonly kind = 'quota';
+  readonly retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs = 30000, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'QuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Missing, invalid or unauthorised API key. */
+export class AuthError extends BazaarError {
+  readonly kind = 'auth';
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AuthError';
+  }
+}
+
+/** No connection, or the service failed on its side. Worth retrying. */
+export class NetworkError extends BazaarError {
+  readonly kind = 'network';
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The model refused the photo or text on safety grounds. */
+export class SafetyBlockedError extends BazaarError {
+  readonly kind = 'safety';
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+/** The model answered, but not with anything we could use. */
+export class ParseError extends BazaarError {
+  readonly kind = 'parse';
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ParseError';
+  }
+}
+
+/** The browser denied, or has no, camera or microphone. */
+export class PermissionError extends BazaarError {
+  readonly kind = 'permission';
+  readonly device: Device;
+  /** True when the device is missing rather than blocked. */
+  readonly unavailable: boolean;
+
+  constructor(device: Device, message: string, unavailable = false, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'PermissionError';
+    this.device = device;
+    this.unavailable = unavailable;
+  }
+}
+
+const FINISH_BLOCKED = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+const BLOCK_REASON_PATTERN = new RegExp(`\\b(?:${FINISH_BLOCKED.join('|')})\\b|blockReason`);
+
+/** Reads a server-suggested delay such as "Please retry in 23.4s" or `"retryDelay": "23s"`. */
+export function parseRetryDelay(text: string): number | undefined {
+  const match = text.match(/retry in ([\d.]+)\s*s/i) ?? text.match(/"retryDelay"\s*:\s*"([\d.]+)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Throws `SafetyBlockedError` when a generateContent response was blocked.
+ * Accepts the loose response shape so callers don't need SDK types.
+ */
+export function assertNotBlocked(response: {
+  promptFeedback?: { blockReason?: string };
+  candidates?: { finishReason?: string }[];
+}) {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && FINISH_BLOCKED.includes(finishReason))) {
+    throw new SafetyBlockedError(`Response blocked: ${blockReason ?? finishReason}`);
+  }
+}
+
+/**
+ * Safety blocks are recognised by the API's own reason codes, from the
+ * response when it came along or from the message. The bare word "blocked"
+ * also turns up in CORS, mixed-content and ad-blocker failures.
+ */
+function isSafetyBlock(err: unknown, message: string): boolean {
+  const response = (err as { response?: { promptFeedback?: { blockReason?: string }; candidates?: { finishReason?: string }[] } })?.response;
+  const finishReason = response?.candidates?.[0]?.finishReason;
+  if (response?.promptFeedback?.blockReason || (finishReason && FINISH_BLOCKED.includes(finishReason))) return true;
+  return BLOCK_REASON_PATTERN.test(message);
+}
+
+/**
+ * Maps anything thrown by the SDK, fetch or media APIs onto the taxonomy.
+ * `device` says which device a media error came from.
+ */
+export function classifyError(err: unknown, device?: Device): BazaarError {
+  if (err instanceof BazaarError) return err;
+
+  const name = (err as { name?: string })?.name ?? '';
+  const message = (err as { message?: string })?.message || (typeof err === 'string' ? err : JSON.stringify(err) ?? 'Unknown error');
+  const status = typeof (err as { status?: unknown })?.status === 'number' ? (err as { status: number }).status : undefined;
+  const options = { cause: err };
+
+  if (device) {
+    if (name === 'NotAllowedError' || name === 'SecurityError') {
+      return new PermissionError(device, message, false, options);
+    }
+    if (name === 'NotFoundError' || name === 'OverconstrainedError' || name === 'NotReadableError') {
+      return new PermissionError(device, message, true, options);
+    }
+  }
+
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new QuotaError(message, parseRetryDelay(message), options);
+  }
+  if (status === 401 || status === 403 || /KEY_NOT_CONFIGURED|API key not valid|API_KEY_INVALID|PERMISSION_DENIED|Requested entity was not found\./i.test(message)) {
+    return new AuthError(message, options);
+  }
+  if (isSafetyBlock(err, message)) {
+    return new SafetyBlockedError(message, options);
+  }
+  if (
+    (status !== undefined && status >= 500) ||
+    /\b50[0-4]\b|Rpc failed|UNAVAILABLE|Failed to fetch|NetworkError|network|ECONNRESET|timed? ?out/i.test(message) ||
+    (typeof navigator !== 'undefined' && !navigator.onLine)
+  ) {
+    return new NetworkError(message, options);
+  }
+  return new BazaarError(message, options);
+}
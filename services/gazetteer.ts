@@ -0,0 +1,199 @@
+import { Coordinates } from "../types.ts";
+
+export interface BazaarEntry {
+  id: string;
+  name: string;
+  city: string;
+  centroid: Coordinates;
+  /** Catchment used when no polygon is drawn for the market. */
+  radiusMeters: number;
+  /** Rough outline of the market streets, as [latitude, longitude] pairs. */
+  polygon?: [number, number][];
+  knownFor: string[];
+  /** How hard sellers here usually bargain; defaults to 'hard'. */
+  haggling?: 'hard' | 'moderate' | 'light';
+}
+
+export interface CityEntry {
+  name: string;
+  centroid: Coordinates;
+  radiusMeters: number;
+}
+
+export const BAZAARS: BazaarEntry[] = [
+  {
+    id: 'qissa-khwani',
+    name: 'Qissa Khwani Bazaar',
+    city: 'Peshawar',
+    centroid: { latitude: 34.0086, longitude: 71.5680 },
+    radiusMeters: 250,
+    polygon: [[34.0096, 71.5652], [34.0099, 71.5664], [34.0078, 71.5712], [34.0072, 71.5703]],
+    knownFor: ['dry fruit', 'kehwa', 'tea houses', 'books'],
+  },
+  {
+    id: 'khyber-bazaar',
+    name: 'Khyber Bazaar',
+    city: 'Peshawar',
+    centroid: { latitude: 34.0066, longitude: 71.5641 },
+    radiusMeters: 250,
+    polygon: [[34.0074, 71.5605], [34.0079, 71.5613], [34.0060, 71.5672], [34.0053, 71.5666]],
+    knownFor: ['chappals', 'electronics', 'pharmacies'],
+  },
+  {
+    id: 'namak-mandi',
+    name: 'Namak Mandi',
+    city: 'Peshawar',
+    centroid: { latitude: 34.0098, longitude: 71.5602 },
+    radiusMeters: 200,
+    knownFor: ['tikka', 'karahi', 'salt'],
+  },
+  {
+    id: 'andarshehr',
+    name: 'Andarshehr Bazaar',
+    city: 'Peshawar',
+    centroid: { latitude: 34.0093, longitude: 71.5719 },
+    radiusMeters: 200,
+    knownFor: ['gold', 'silver', 'gemstones'],
+  },
+  {
+    id: 'chowk-yadgar',
+    name: 'Chowk Yadgar',
+    city: 'Peshawar',
+    centroid: { latitude: 34.0079, longitude: 71.5727 },
+    radiusMeters: 200,
+    knownFor: ['money changers', 'textiles'],
+  },
+  {
+    id: 'karkhano',
+    name: 'Karkhano Market',
+    city: 'Peshawar',
+    centroid: { latitude: 33.9913, longitude: 71.4623 },
+    radiusMeters: 600,
+    knownFor: ['imported goods', 'blankets', 'crockery'],
+    haggling: 'moderate',
+  },
+  {
+    id: 'anarkali',
+    name: 'Anarkali Bazaar',
+    city: 'Lahore',
+    centroid: { latitude: 31.5686, longitude: 74.3106 },
+    radiusMeters: 350,
+    knownFor: ['khussa', 'bangles', 'fabric'],
+  },
+  {
+    id: 'shah-alam',
+    name: 'Shah Alam Market',
+    city: 'Lahore',
+    centroid: { latitude: 31.5800, longitude: 74.3135 },
+    radiusMeters: 400,
+    knownFor: ['wholesale', 'crockery', 'toys'],
+  },
+  {
+    id: 'liberty',
+    name: 'Liberty Market',
+    city: 'Lahore',
+    centroid: { latitude: 31.5104, longitude: 74.3441 },
+    radiusMeters: 300,
+    knownFor: ['clothing', 'shoes', 'jewellery'],
+    haggling: 'moderate',
+  },
+  {
+    id: 'ichhra',
+    name: 'Ichhra Bazaar',
+    city: 'Lahore',
+    centroid: { latitude: 31.5338, longitude: 74.3176 },
+    radiusMeters: 300,
+    knownFor: ['unstitched fabric', 'lace'],
+  },
+  {
+    id: 'empress-market',
+    name: 'Empress Market',
+    city: 'Karachi',
+    centroid: { latitude: 24.8606, longitude: 67.0285 },
+    radiusMeters: 250,
+    knownFor: ['spices', 'dry fruit', 'pets'],
+  },
+  {
+    id: 'zainab-market',
+    name: 'Zainab Market',
+    city: 'Karachi',
+    centroid: { latitude: 24.8554, longitude: 67.0248 },
+    radiusMeters: 200,
+    knownFor: ['handicrafts', 'sindhi caps', 'leather'],
+  },
+  {
+    id: 'bohri-bazaar',
+    name: 'Bohri Bazaar',
+    city: 'Karachi',
+    centroid: { latitude: 24.8546, longitude: 67.0262 },
+    radiusMeters: 200,
+    knownFor: ['fabric', 'ajrak', 'kitchenware'],
+  },
+  {
+    id: 'liaquat-bazaar',
+    name: 'Liaquat Bazaar',
+    city: 'Quetta',
+    centroid: { latitude: 30.1910, longitude: 67.0085 },
+    radiusMeters: 300,
+    knownFor: ['carpets', 'dry fruit', 'balochi embroidery'],
+  },
+  {
+    id: 'kandahari-bazaar',
+    name: 'Kandahari Bazaar',
+    city: 'Quetta',
+    centroid: { latitude: 30.1955, longitude: 67.0050 },
+    radiusMeters: 250,
+    knownFor: ['afghan rugs', 'gemstones', 'shawls'],
+  },
+  {
+    id: 'jinnah-super',
+    name: 'Jinnah Super Market',
+    city: 'Islamabad',
+    centroid: { latitude: 33.7215, longitude: 73.0563 },
+    radiusMeters: 250,
+    knownFor: ['handicrafts', 'books', 'shoes'],
+    haggling: 'light',
+  },
+  {
+    id: 'aabpara',
+    name: 'Aabpara Market',
+    city: 'Islamabad',
+    centroid: { latitude: 33.7070, longitude: 73.0880 },
+    radiusMeters: 250,
+    knownFor: ['groceries', 'fabric'],
+    haggling: 'moderate',
+  },
+  {
+    id: 'sunday-bazaar-h9',
+    name: 'H-9 Sunday Bazaar',
+    city: 'Islamabad',
+    centroid: { latitude: 33.6930, longitude: 73.0530 },
+    radiusMeters: 400,
+    knownFor: ['produce', 'second-hand goods', 'carpets'],
+  },
+  {
+    id: 'raja-bazaar',
+    name: 'Raja Bazaar',
+    city: 'Rawalpindi',
+    centroid: { latitude: 33.6158, longitude: 73.0650 },
+    radiusMeters: 400,
+    knownFor: ['wholesale cloth', 'spices', 'utensils'],
+  },
+];
+
+export const CITIES: CityEntry[] = [
+  { name: 'Peshawar', centroid: { latitude: 34.0151, longitude: 71.5249 }, radiusMeters: 25000 },
+  { name: 'Islamabad', centroid: { latitude: 33.6844, longitude: 73.0479 }, radiusMeters: 20000 },
+  { name: 'Rawalpindi', centroid: { latitude: 33.5651, longitude: 73.0169 }, radiusMeters: 15000 },
+  { name: 'Lahore', centroid: { latitude: 31.5204, longitude: 74.3587 }, radiusMeters: 30000 },
+  { name: 'Karachi', centroid: { latitude: 24.8607, longitude: 67.0011 }, radiusMeters: 40000 },
+  { name: 'Quetta', centroid: { latitude: 30.1798, longitude: 66.9750 }, radiusMeters: 15000 },
+];
+
+export function getBazaar(id: string): BazaarEntry | undefined {
+  return BAZAARS.find(b => b.id === id);
+}
+
+export function getBazaarsInCity(city: string): BazaarEntry[] {
+  return BAZAARS.filter(b => b.city === city);
+}
@@ -0,0 +1,256 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const generateContent = vi.fn();
+
+vi.mock('@google/genai', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@google/genai')>();
+  return {
+    ...actual,
+    GoogleGenAI: vi.fn(() => ({ models: { generateContent } })),
+  };
+});
+
+import {
+  analyzeImage,
+  analyzeShelf,
+  collectGroundingSources,
+  createPcmBlob,
+  decode,
+  decodeAudioData,
+  encode,
+  parseJSONFromResponse,
+  withRetry,
+} from './gemini.ts';
+import { AnalysisValidationError } from './validation.ts';
+import { setActiveKey, storeKey, unlockKey } from './keyVault.ts';
+import { geminiProvider } from './provider.ts';
+import { DEFAULT_PROFILE } from './cityProfiles.ts';
+import { GoogleGenAI } from '@google/genai';
+
+const VALID_REPLY = JSON.stringify({
+  objectName: 'Peshawari Chappal',
+  price: { min: 1800, typical: 2500, max: 3500, unit: 'pair', confidence: 'high' },
+  translations: {
+    urdu: { name: 'پشاوری چپل', phonetic: 'Peshawari chappal' },
+    pashto: { name: 'پېښوري څپلۍ', phonetic: 'Pekhawri tsaplai' },
+    hindko: { name: 'پشوری چپل', phonetic: 'Pishori chappal' },
+  },
+  description: 'Hand-stitched leather sandal.',
+  verifiedShops: [],
+});
+
+beforeEach(() => {
+  setActiveKey('test-key');
+  generateContent.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('withRetry', () => {
+  it('returns the first successful result with the primary model', async () => {
+    const fn = vi.fn().mockResolvedValue('ok');
+    await expect(withRetry(fn, 'primary', 'fallback')).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn.mock.calls[0][1]).toBe('primary');
+  });
+
+  it('falls back to the lite model after a quota error and backs off first', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new Error('429 RESOURCE_EXHAUSTED'))
+      .mockResolvedValueOnce('ok');
+    const promise = withRetry(fn, 'gemini-3-flash-preview', 'gemini-flash-lite-latest');
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(promise).resolves.toBe('ok');
+    expect(fn.mock.calls.map(call => call[1])).toEqual(['gemini-3-flash-preview', 'gemini-flash-lite-latest']);
+  });
+
+  it('retries internal errors on the same model', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new Error('500 Rpc failed'))
+      .mockResolvedValueOnce('ok');
+    const promise = withRetry(fn, 'primary', 'fallback');
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(promise).resolves.toBe('ok');
+    expect(fn.mock.calls.map(call => call[1])).toEqual(['primary', 'primary']);
+  });
+
+  it('throws non-retryable errors immediately', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('400 INVALID_ARGUMENT'));
+    await expect(withRetry(fn, 'primary', 'fallback')).rejects.toThrow('400 INVALID_ARGUMENT');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the last attempt', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn().mockRejectedValue(new Error('429 RESOURCE_EXHAUSTED'));
+    const promise = withRetry(fn, 'primary', 'fallback');
+    const assertion = expect(promise).rejects.toThrow('429');
+    await vi.advanceTimersByTimeAsync(2000);
+    await assertion;
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses to run without an API key', async () => {
+    setActiveKey(null);
+    const fn = vi.fn();
+    await expect(withRetry(fn, 'primary')).rejects.toThrow('KEY_NOT_CONFIGURED');
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe('active key', () => {
+  it('calls the API with a key unlocked from the vault', async () => {
+    const buildTimeKey = process.env.API_KEY;
+    localStorage.clear();
+    await storeKey('AIzaSy-vault-key-5678', 'open sesame');
+    setActiveKey(await unlockKey('open sesame'));
+
+    await withRetry(async () => 'ok', 'primary');
+    expect(GoogleGenAI).toHaveBeenLastCalledWith({ apiKey: 'AIzaSy-vault-key-5678' });
+
+    geminiProvider.createLiveBridge({ sellerLanguage: 'urdu', profile: DEFAULT_PROFILE });
+    expect(GoogleGenAI).toHaveBeenLastCalledWith({ apiKey: 'AIzaSy-vault-key-5678' });
+    expect(process.env.API_KEY).toBe(buildTimeKey);
+  });
+});
+
+describe('parseJSONFromResponse', () => {
+  it('parses a bare object', () => {
+    expect(parseJSONFromResponse('{"a": 1}')).toEqual({ a: 1 });
+  });
+
+  it('strips markdown fences and surrounding prose', () => {
+    const text = 'Here you go:\n```json\n{"objectName": "Shawl", "nested": {"b": "}"}}\n```\nHope that helps!';
+    expect(parseJSONFromResponse(text)).toEqual({ objectName: 'Shawl', nested: { b: '}' } });
+  });
+
+  it('throws a validation error when there is no object', () => {
+    expect(() => parseJSONFromResponse('Sorry, I cannot help with that.')).toThrow(AnalysisValidationError);
+  });
+});
+
+describe('audio helpers', () => {
+  it('round-trips bytes through encode and decode', () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+    expect(encode(bytes)).toBe('AAF/gP8=');
+    expect(Array.from(decode('AAF/gP8='))).toEqual([0, 1, 127, 128, 255]);
+  });
+
+  it('converts 16-bit PCM into float channel data', async () => {
+    const channel = new Float32Array(3);
+    const ctx = {
+      createBuffer: vi.fn(() => ({ getChannelData: () => channel })),
+    } as unknown as AudioContext;
+    const pcm = new Int16Array([0, 16384, -32768]);
+
+    await decodeAudioData(new Uint8Array(pcm.buffer), ctx);
+
+    expect(ctx.createBuffer).toHaveBeenCalledWith(1, 3, 24000);
+    expect(Array.from(channel)).toEqual([0, 0.5, -1]);
+  });
+
+  it('builds a 16 kHz PCM blob with clipping', () => {
+    const blob = createPcmBlob(new Float32Array([0, 0.25, 1]));
+    expect(blob.mimeType).toBe('audio/pcm;rate=16000');
+    const samples = new Int16Array(decode(blob.data!).buffer);
+    expect(Array.from(samples)).toEqual([0, 16383, 32767]);
+  });
+});
+
+describe('grounding sources', () => {
+  it('keeps one entry per URI and skips chunks without a web link', () => {
+    const sources = collectGroundingSources([
+      { web: { uri: 'https://a.example', title: 'A' } },
+      { web: { uri: 'https://b.example' } },
+      { web: { uri: 'https://a.example', title: 'A again' } },
+      { retrievedContext: { uri: 'gs://doc' } },
+    ]);
+    expect(sources.map(s => s.uri)).toEqual(['https://a.example', 'https://b.example']);
+    expect(sources[1].title).toBe('Web');
+  });
+
+  it('de-duplicates sources on analyzed results', async () => {
+    generateContent.mockResolvedValue({
+      text: VALID_REPLY,
+      candidates: [{
+        groundingMetadata: {
+          groundingChunks: [
+            { web: { uri: 'https://shop.example', title: 'Shop' } },
+            { web: { uri: 'https://shop.example', title: 'Shop' } },
+          ],
+        },
+      }],
+    });
+
+    const result = await analyzeImage('aGVsbG8=');
+
+    expect(result.objectName).toBe('Peshawari Chappal');
+    expect(result.groundingSources).toEqual([{ title: 'Shop', uri: 'https://shop.example', type: 'web' }]);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('analyzeImage repair pass', () => {
+  it('keeps a partial repair when the first reply could not be parsed', async () => {
+    const { description: _description, translations, ...partial } = JSON.parse(VALID_REPLY);
+    generateContent
+      .mockResolvedValueOnce({ text: 'Sorry, here is the chappal price' })
+      .mockResolvedValueOnce({ text: JSON.stringify({ ...partial, translations: { urdu: translations.urdu, pashto: translations.pashto } }) });
+
+    const result = await analyzeImage('aGVsbG8=');
+
+    expect(generateContent).toHaveBeenCalledTimes(2);
+    expect(result.objectName).toBe('Peshawari Chappal');
+    expect(result.price.typical).toBe(2500);
+  });
+
+  it('keeps the original result when the repair has more issues', async () => {
+    const { description: _description, ...reply } = JSON.parse(VALID_REPLY);
+    generateContent
+      .mockResolvedValueOnce({ text: JSON.stringify(reply) })
+      .mockResolvedValueOnce({ text: JSON.stringify({ objectName: 'Chappal' }) });
+
+    const result = await analyzeImage('aGVsbG8=');
+
+    expect(result.price.typical).toBe(2500);
+  });
+});
+
+describe('analyzeShelf', () => {
+  const item = JSON.parse(VALID_REPLY);
+
+  it('returns every usable item with its box normalized to the photo', async () => {
+    generateContent.mockResolvedValue({
+      text: JSON.stringify({
+        items: [
+          { ...item, box_2d: [100, 200, 600, 500] },
+          { ...item, objectName: 'Shawl', box_2d: [0, 0, 0, 0] },
+          { ...item, objectName: 'Saffron', box_2d: [500, 600, 1200, 900] },
+        ],
+      }),
+    });
+
+    const shelf = await analyzeShelf('aGVsbG8=');
+
+    expect(shelf.items.map(i => i.result.objectName)).toEqual(['Peshawari Chappal', 'Saffron']);
+    expect(shelf.items[0].box).toEqual({ x: 0.2, y: 0.1, width: 0.3, height: 0.5 });
+    expect(shelf.items[1].box.height).toBeCloseTo(0.5);
+    expect(shelf.items[0].result.profileId).toBe('peshawar');
+  });
+
+  it('fails with a validation error when nothing usable was detected', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify({ items: [{ objectName: 'Mystery' }] }) });
+    await expect(analyzeShelf('aGVsbG8=')).rejects.toBeInstanceOf(AnalysisValidationError);
+  });
+});
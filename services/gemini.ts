@@ -1,11 +1,25 @@
 
-import { GoogleGenAI, Type, Modality, Chat, LiveServerMessage, Blob } from "@google/genai";
-import { AnalysisResult, GroundingSource } from "../types.ts";
+import { GoogleGenAI, Type, Modality, Chat, LiveServerMessage, Blob, GroundingChunk } from "@google/genai";
+import { AnalysisResult, CityProfile, Coordinates, GroundingSource, MarketMatch, SellerLanguage, ShelfAnalysis } from "../types.ts";
+import { DEFAULT_PROFILE, describeLanguage, getProfileMarkets, resolveProfile } from "./cityProfiles.ts";
+import { locateMarket } from "./location.ts";
+import {
+  AnalysisValidationError,
+  ValidationOutcome,
+  extractJSONObject,
+  formatIssues,
+  validateAnalysisResult,
+  validateShelfAnalysis,
+} from "./validation.ts";
+import { AuthError, NetworkError, QuotaError, assertNotBlocked, classifyError } from "./errors.ts";
+import { getActiveKey } from "./keyVault.ts";
+import { loadModelSettings } from "./settings.ts";
+import { promptShops } from "./shopDirectory.ts";
 
 /**
  * Helper to handle retries for API calls.
  */
-async function withRetry<T>(
+export async function withRetry<T>(
   fn: (ai: GoogleGenAI, modelName: string) => Promise<T>, 
   primaryModel: string,
   fallbackModel?: string,
@@ -14,10 +28,10 @@ async function withRetry<T>(
   let lastError: any;
   let currentModel = primaryModel;
 
-  const apiKey = process.env.API_KEY;
+  const apiKey = getActiveKey();
   
-  if (!apiKey || apiKey === "" || apiKey.includes("your_actual")) {
-    throw new Error("KEY_NOT_CONFIGURED: The Gemini API key is missing.");
+  if (!apiKey) {
+    throw new AuthError("KEY_NOT_CONFIGURED: The Gemini API key is missing.");
   }
 
   for (let i = 0; i < maxRetries; i++) {
@@ -25,106 +39,317 @@ async function withRetry<T>(
     try {
       return await fn(ai, currentModel);
     } catch (err: any) {
-      lastError = err;
-      const errStr = err?.message || JSON.stringify(err) || "";
+      lastError = classifyError(err);
       
       console.error(`Bazaar-Sense: Attempt ${i+1} failed [${currentModel}]:`, err);
 
-      const isQuotaError = errStr.includes('429') || errStr.includes('RESOURCE_EXHAUSTED');
-      if (isQuotaError && i < maxRetries - 1) {
+      if (lastError instanceof QuotaError && i < maxRetries - 1) {
         if (fallbackModel && i === 0) currentModel = fallbackModel;
         await new Promise(resolve => setTimeout(resolve, 2000 * (i + 1)));
         continue;
       }
 
-      const isInternalError = errStr.includes('500') || errStr.includes('Rpc failed');
-      if (isInternalError && i < maxRetries - 1) {
+      if (lastError instanceof NetworkError && i < maxRetries - 1) {
         await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
         continue;
       }
       
-      throw err;
+      throw lastError;
     }
   }
   throw lastError;
 }
 
-function parseJSONFromResponse(text: string): any {
-  const jsonRegex = /\{[\s\S]*\}/;
-  const match = text.match(jsonRegex);
-  if (!match) throw new Error("Format error.");
+/**
+ * Checks a key with a metadata lookup of the analysis model: no tokens are
+ * spent, and it fails the same way a real call would for a bad or
+ * unauthorised key. Throws the classified error.
+ */
+export async function verifyApiKey(apiKey: string, model = loadModelSettings().analysisModel): Promise<void> {
   try {
-    return JSON.parse(match[0]);
-  } catch (e) {
-    throw new Error("JSON parse error.");
+    await new GoogleGenAI({ apiKey }).models.get({ model });
+  } catch (err) {
+    throw classifyError(err);
   }
 }
 
-export const analyzeImage = async (
-  base64Image: string, 
-  location?: { latitude: number; longitude: number }
-): Promise<AnalysisResult> => {
-  return withRetry(async (ai, modelName) => {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "image/jpeg",
-              data: base64Image,
-            },
-          },
-          {
-            text: `Identify this item from a bazaar in Peshawar. 
-            Find typical prices in PKR.
-            Provide 2-3 "Verified Shops" in either Namak Mandi, Qissa Khwani, or Khyber Bazaar that sell this authentic item.
+export function parseJSONFromResponse(text: string): any {
+  return extractJSONObject(text);
+}
+
+/**
+ * Parses and validates a model reply. Unparseable text is reported as a
+ * single root-level issue so it goes through the same repair path.
+ */
+function validateResponseText(text: string, languages: SellerLanguage[]): ValidationOutcome {
+  try {
+    return validateAnalysisResult(parseJSONFromResponse(text), languages);
+  } catch (err) {
+    if (err instanceof AnalysisValidationError) return { result: null, issues: err.issues, missingSections: [] };
+    throw err;
+  }
+}
+
+/** Urdu is understood everywhere, so it is always requested alongside the profile's languages. */
+function analysisLanguages(profile: CityProfile): SellerLanguage[] {
+  return Array.from(new Set<SellerLanguage>(['urdu', ...profile.sellerLanguages]));
+}
+
+/**
+ * Profile, market and languages for an analysis. A detected bazaar outside
+ * the chosen profile's cities is ignored rather than mixing two cities.
+ */
+export function analysisContext(location?: Coordinates, profile?: CityProfile) {
+  const detected = location ? locateMarket(location) : null;
+  const activeProfile = profile ?? resolveProfile(null, detected);
+  const market = detected && activeProfile.cities.includes(detected.city) ? detected : null;
+  return { profile: activeProfile, market, languages: analysisLanguages(activeProfile) };
+}
+
+/**
+ * Builds the vision prompt for a city profile, pinning prices and shop
+ * suggestions to the bazaar the user is standing in when we know it.
+ */
+function buildAnalysisPrompt(profile: CityProfile, market: MarketMatch | null, location?: Coordinates): string {
+  const markets = getProfileMarkets(profile);
+  const languages = analysisLanguages(profile);
+
+  let setting = `Identify this item from a bazaar in ${profile.name}, ${profile.region}.`;
+  if (market?.bazaarName) {
+    setting += ` The user is standing in ${market.bazaarName}; price it for that bazaar specifically.`;
+  }
+  if (location) {
+    setting += ` Device position: ${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}.`;
+  }
+
+  let shops: string;
+  if (market?.bazaarName) {
+    const others = markets.filter(m => m !== market.bazaarName);
+    shops = `Suggest 2-3 shops inside ${market.bazaarName}${others.length > 0 ? ` (or, if none fit, in ${others.join(', ')})` : ''} that sell this authentic item.`;
+  } else {
+    shops = `Suggest 2-3 shops in either ${markets.join(', ')} that sell this authentic item.`;
+  }
+  const listed = promptShops(profile, market);
+  if (listed.length > 0) {
+    shops += ` Prefer these listed shops when they sell the item, using their exact names: ${listed.map(shop => `${shop.name} (${shop.categories.join(', ')})`).join('; ')}.`;
+  }
+
+  const translationShape = languages
+    .map(language => `"${language}": { "name": "string", "phonetic": "string" }`)
+    .join(',\n                ');
+
+  return `${setting} 
+            Local price context: ${profile.priceContext}
+            Find typical prices in PKR as numbers: the lowest fair price, the typical price and the highest price you would expect a seller to ask.
+            Use the unit the item is normally sold by (piece, pair, kg, gram, tola, dozen, meter, yard, set or liter) and rate your confidence as low, medium or high.
+            Give the local name of the item in ${languages.map(l => describeLanguage(l, profile)).join(', ')}, each in its native script with a Latin phonetic spelling.
+            ${shops}
             
             JSON structure:
             {
               "objectName": "string",
-              "pricePKR": "string",
-              "urdu": { "name": "string", "phonetic": "string" },
-              "pashto": { "name": "string", "phonetic": "string" },
+              "price": { "min": 0, "typical": 0, "max": 0, "unit": "piece", "confidence": "medium" },
+              "translations": {
+                ${translationShape}
+              },
               "description": "string",
               "locationTips": "string",
               "verifiedShops": [
-                { "name": "string", "location": "string", "specialty": "string", "discountCode": "string", "rating": 5 }
+                { "name": "string", "location": "string", "specialty": "string" }
+              ]
+            }`;
+}
+
+/** Most items asked for in one shelf photo; more makes boxes too small to tap. */
+export const MAX_SHELF_ITEMS = 8;
+
+/** Prompt for a whole stall: every distinct item with a box, without shop suggestions. */
+function buildShelfPrompt(profile: CityProfile, market: MarketMatch | null, location?: Coordinates): string {
+  const languages = analysisLanguages(profile);
+
+  let setting = `This photo shows a stall or shelf in a bazaar in ${profile.name}, ${profile.region}. Identify up to ${MAX_SHELF_ITEMS} distinct kinds of goods for sale in it.`;
+  if (market?.bazaarName) {
+    setting += ` The user is standing in ${market.bazaarName}; price them for that bazaar specifically.`;
+  }
+  if (location) {
+    setting += ` Device position: ${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}.`;
+  }
+
+  const translationShape = languages
+    .map(language => `"${language}": { "name": "string", "phonetic": "string" }`)
+    .join(',\n                    ');
+
+  return `${setting}
+            Local price context: ${profile.priceContext}
+            Group identical goods (a pile of one spice, a row of the same chappal) into one item and box the whole group.
+            Give each box as "box_2d": [ymin, xmin, ymax, xmax] scaled to 0-1000 over the photo.
+            For each item find typical prices in PKR as numbers: the lowest fair price, the typical price and the highest price you would expect a seller to ask.
+            Use the unit the item is normally sold by (piece, pair, kg, gram, tola, dozen, meter, yard, set or liter) and rate your confidence as low, medium or high.
+            Give the local name of each item in ${languages.map(l => describeLanguage(l, profile)).join(', ')}, each in its native script with a Latin phonetic spelling.
+
+            JSON structure:
+            {
+              "items": [
+                {
+                  "box_2d": [0, 0, 1000, 1000],
+                  "objectName": "string",
+                  "price": { "min": 0, "typical": 0, "max": 0, "unit": "piece", "confidence": "medium" },
+                  "translations": {
+                    ${translationShape}
+                  },
+                  "description": "one sentence"
+                }
               ]
-            }`,
+            }`;
+}
+
+/** Web sources from a grounded response, one per URI. */
+export function collectGroundingSources(chunks: GroundingChunk[] | undefined): GroundingSource[] {
+  const sources: GroundingSource[] = [];
+  chunks?.forEach(chunk => {
+    if (chunk.web?.uri) sources.push({ title: chunk.web.title || "Web", uri: chunk.web.uri, type: 'web' });
+  });
+  return Array.from(new Map(sources.map(s => [s.uri, s])).values());
+}
+
+/**
+ * Analyzes a photo. Without an explicit profile the city is picked from the
+ * device position; a detected bazaar outside the profile's cities is ignored.
+ */
+export const analyzeImage = async (
+  base64Image: string, 
+  location?: Coordinates,
+  profile?: CityProfile
+): Promise<AnalysisResult> => {
+  const { profile: activeProfile, market, languages } = analysisContext(location, profile);
+  const prompt = buildAnalysisPrompt(activeProfile, market, location);
+
+  const models = loadModelSettings();
+
+  return withRetry(async (ai, modelName) => {
+    const request = {
+      role: 'user',
+      parts: [
+        {
+          inlineData: {
+            mimeType: "image/jpeg",
+            data: base64Image,
           },
-        ],
-      },
+        },
+        { text: prompt },
+      ],
+    };
+
+    const response = await ai.models.generateContent({
+      model: modelName,
+      contents: [request],
       config: {
         tools: [{ googleSearch: {} }],
       }
     });
 
+    assertNotBlocked(response);
     const text = response.text;
-    if (!text) throw new Error("No content.");
-    const parsedResult = parseJSONFromResponse(text) as AnalysisResult;
-
-    const sources: GroundingSource[] = [];
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        if (chunk.web?.uri) sources.push({ title: chunk.web.title || "Web", uri: chunk.web.uri, type: 'web' });
-      });
+    if (!text) throw new AnalysisValidationError([{ path: '$', message: 'model returned no content' }]);
+    let outcome = validateResponseText(text, languages);
+
+    // One repair pass: hand the model its own answer plus the validation errors.
+    if (outcome.issues.length > 0) {
+      console.warn(`Bazaar-Sense: Repairing analysis response: ${formatIssues(outcome.issues)}`);
+      try {
+        const repair = await ai.models.generateContent({
+          model: modelName,
+          contents: [
+            request,
+            { role: 'model', parts: [{ text }] },
+            {
+              role: 'user',
+              parts: [{
+                text: `Your JSON failed validation:\n${outcome.issues.map(i => `- ${i.path}: ${i.message}`).join('\n')}\nReturn the complete corrected JSON object only, using the same structure.`,
+              }],
+            },
+          ],
+        });
+        const repaired = repair.text ? validateResponseText(repair.text, languages) : null;
+        // Any usable repair beats no result; between two results, keep the one with fewer issues.
+        if (repaired?.result && (!outcome.result || repaired.issues.length <= outcome.issues.length)) {
+          outcome = repaired;
+        }
+      } catch (err) {
+        console.error('Bazaar-Sense: Repair attempt failed:', err);
+      }
     }
-    
-    parsedResult.groundingSources = Array.from(new Map(sources.map(s => [s.uri, s])).values());
+
+    if (!outcome.result) throw new AnalysisValidationError(outcome.issues);
+    const parsedResult = outcome.result;
+
+    parsedResult.groundingSources = collectGroundingSources(response.candidates?.[0]?.groundingMetadata?.groundingChunks);
+    if (market) parsedResult.market = market;
+    parsedResult.profileId = activeProfile.id;
     return parsedResult;
-  }, 'gemini-3-flash-preview', 'gemini-flash-lite-latest');
+  }, models.analysisModel, models.fallbackModel);
 };
 
-export const generateTTS = async (text: string, targetLanguageContext: string = "Pashto"): Promise<Uint8Array> => {
-  return withRetry(async (ai) => {
-    // Improved prompt with specific dialect instruction for Pashto
-    const languageLabel = targetLanguageContext === "Pashto" ? "Pashto (Peshawar dialect)" : targetLanguageContext;
-    const prompt = `Say this ${languageLabel} word clearly: ${text}`;
+/**
+ * Multi-item variant of `analyzeImage` for a whole stall. Each item comes back
+ * as a full result for the same profile and market, with its box in the photo.
+ */
+export const analyzeShelf = async (
+  base64Image: string,
+  location?: Coordinates,
+  profile?: CityProfile
+): Promise<ShelfAnalysis> => {
+  const { profile: activeProfile, market, languages } = analysisContext(location, profile);
+  const prompt = buildShelfPrompt(activeProfile, market, location);
+  const models = loadModelSettings();
+
+  return withRetry(async (ai, modelName) => {
+    const response = await ai.models.generateContent({
+      model: modelName,
+      contents: [{
+        role: 'user',
+        parts: [
+          { inlineData: { mimeType: "image/jpeg", data: base64Image } },
+          { text: prompt },
+        ],
+      }],
+      config: {
+        tools: [{ googleSearch: {} }],
+      }
+    });
+
+    assertNotBlocked(response);
+    const text = response.text;
+    if (!text) throw new AnalysisValidationError([{ path: '$', message: 'model returned no content' }]);
+
+    const { items, issues } = validateShelfAnalysis(parseJSONFromResponse(text), languages);
+    if (issues.length > 0) console.warn(`Bazaar-Sense: Shelf analysis issues: ${formatIssues(issues)}`);
+    if (items.length === 0) throw new AnalysisValidationError(issues.length > 0 ? issues : [{ path: 'items', message: 'no items detected' }]);
+
+    for (const item of items) {
+      if (market) item.result.market = market;
+      item.result.profileId = activeProfile.id;
+    }
+    return {
+      items: items.slice(0, MAX_SHELF_ITEMS),
+      groundingSources: collectGroundingSources(response.candidates?.[0]?.groundingMetadata?.groundingChunks),
+    };
+  }, models.analysisModel, models.fallbackModel);
+};
+
+export const generateTTS = async (
+  text: string,
+  language: SellerLanguage = 'pashto',
+  profile: CityProfile = DEFAULT_PROFILE
+): Promise<Uint8Array> => {
+  const { ttsModel, ttsVoice } = loadModelSettings();
+
+  return withRetry(async (ai, modelName) => {
+    // Dialect hint comes from the city profile, e.g. Peshawar Yusufzai Pashto
+    const prompt = `Say this ${describeLanguage(language, profile)} word clearly: ${text}`;
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-preview-tts',
+      model: modelName,
       contents: [{ 
         parts: [{ text: prompt }] 
       }],
@@ -132,12 +357,14 @@ export const generateTTS = async (text: string, targetLanguageContext: string =
         responseModalities: [Modality.AUDIO],
         speechConfig: {
           voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
+            prebuiltVoiceConfig: { voiceName: ttsVoice },
           },
         },
       },
     });
 
+    assertNotBlocked(response);
+
     // Handle extraction with high resilience
     const candidates = response.candidates;
     if (!candidates || candidates.length === 0) {
@@ -165,7 +392,7 @@ export const generateTTS = async (text: string, targetLanguageContext: string =
     }
     
     return decode(base64Data);
-  }, 'gemini-2.5-flash-preview-tts');
+  }, ttsModel);
 };
 
 export function encode(bytes: Uint8Array) {
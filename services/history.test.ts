@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { deleteHistoryItems, loadHistory } from './history.ts';
+
+const LEGACY_KEY = 'bazaar_history';
+
+beforeEach(async () => {
+  localStorage.clear();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  await deleteHistoryItems((await loadHistory()).map(item => item.id));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('legacy history migration', () => {
+  it('moves a readable blob into the database and removes it', async () => {
+    localStorage.setItem(LEGACY_KEY, JSON.stringify([{ id: 'a', objectName: 'Ajrak', pricePKR: 'Rs. 1200', timestamp: 1 }]));
+
+    const history = await loadHistory();
+
+    expect(history.map(item => item.id)).toEqual(['a']);
+    expect(localStorage.getItem(LEGACY_KEY)).toBeNull();
+  });
+
+  it('keeps a blob that does not parse', async () => {
+    localStorage.setItem(LEGACY_KEY, '[{"id": "a", "objectName": "Aj');
+
+    expect(await loadHistory()).toEqual([]);
+    expect(localStorage.getItem(LEGACY_KEY)).not.toBeNull();
+  });
+
+  it('imports the readable entries of a partly readable blob but keeps it', async () => {
+    localStorage.setItem(LEGACY_KEY, JSON.stringify([{ id: 'a', objectName: 'Ajrak', timestamp: 1 }, { id: 'b', price: 'lost' }]));
+
+    expect((await loadHistory()).map(item => item.id)).toEqual(['a']);
+    expect(localStorage.getItem(LEGACY_KEY)).not.toBeNull();
+  });
+});
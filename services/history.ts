@@ -0,0 +1,83 @@
+import { HistoryItem } from "../types.ts";
+import { normalizePrice } from "./pricing.ts";
+import { deleteRecords, getAllRecords, putRecord, putRecords } from "./db.ts";
+
+/** Where the log lived before it moved to IndexedDB. */
+const LEGACY_HISTORY_KEY = 'bazaar_history';
+
+/**
+ * Upgrades a saved entry to the current `HistoryItem` shape. Entries written
+ * before structured pricing only carried a free-text `pricePKR` string.
+ */
+export function migrateHistoryItem(raw: any): HistoryItem | null {
+  if (!raw || typeof raw !== 'object' || typeof raw.objectName !== 'string') return null;
+
+  const item: HistoryItem = {
+    id: String(raw.id ?? raw.timestamp ?? Date.now()),
+    objectName: raw.objectName,
+    price: normalizePrice(raw.price),
+    timestamp: typeof raw.timestamp === 'number' ? raw.timestamp : Date.now(),
+  };
+
+  if (raw.market && typeof raw.market.city === 'string') item.market = raw.market;
+  if (typeof raw.paidPKR === 'number' && raw.paidPKR >= 0) item.paidPKR = raw.paidPKR;
+  if (typeof raw.quantity === 'number' && raw.quantity > 0) item.quantity = raw.quantity;
+  if (typeof raw.shopName === 'string') item.shopName = raw.shopName;
+  if (typeof raw.shopId === 'string') item.shopId = raw.shopId;
+  if (typeof raw.notes === 'string') item.notes = raw.notes;
+  if (typeof raw.scanId === 'string') item.scanId = raw.scanId;
+
+  if (typeof raw.pricePKR === 'string') {
+    item.price = item.price ?? normalizePrice(raw.pricePKR);
+    item.legacyPriceText = raw.pricePKR;
+  } else if (typeof raw.legacyPriceText === 'string') {
+    item.legacyPriceText = raw.legacyPriceText;
+  }
+
+  return item;
+}
+
+/** Entries in the old blob, and whether every one of them could be read; null when there is no blob. */
+function readLegacyHistory(): { items: HistoryItem[]; complete: boolean } | null {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return null;
+  try {
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return { items: [], complete: false };
+    const items = parsed.map(migrateHistoryItem).filter((item): item is HistoryItem => item !== null);
+    return { items, complete: items.length === parsed.length };
+  } catch (e) {
+    console.error("History load error", e);
+    return { items: [], complete: false };
+  }
+}
+
+/**
+ * Loads the log from IndexedDB, first moving over anything still sitting in
+ * the old `localStorage` blob. The blob is only removed once all of it has
+ * been read and stored; otherwise it stays so it can still be recovered.
+ */
+export async function loadHistory(): Promise<HistoryItem[]> {
+  const legacy = readLegacyHistory();
+  if (legacy) {
+    if (legacy.items.length > 0) await putRecords('history', legacy.items);
+    if (legacy.complete) localStorage.removeItem(LEGACY_HISTORY_KEY);
+    else console.warn('Bazaar-Sense: Kept the old history blob, part of it could not be read');
+  }
+
+  const stored = await getAllRecords<unknown>('history');
+  return stored.map(migrateHistoryItem).filter((item): item is HistoryItem => item !== null);
+}
+
+export function saveHistoryItem(item: HistoryItem): Promise<void> {
+  return putRecord('history', item);
+}
+
+/** Writes edited entries back, or puts deleted ones back on undo. */
+export function saveHistoryItems(items: HistoryItem[]): Promise<void> {
+  return putRecords('history', items);
+}
+
+export function deleteHistoryItems(ids: string[]): Promise<void> {
+  return deleteRecords('history', ids);
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryItem } from '../types.ts';
+import { filterHistory, historyPlaces, isFiltered, NO_FILTERS, sortHistory } from './historyQuery.ts';
+
+const day = (date: string, hour = 12) => new Date(`${date}T${String(hour).padStart(2, '0')}:00:00`).getTime();
+
+const LOG: HistoryItem[] = [
+  {
+    id: 'chappal',
+    objectName: 'Peshawari Chappal',
+    price: { min: 1800, typical: 2500, max: 3500, unit: 'pair', confidence: 'high' },
+    paidPKR: 2200,
+    quantity: 1,
+    shopName: 'Chacha Nooruddin',
+    market: { city: 'Peshawar', bazaarId: 'qissa-khwani', bazaarName: 'Qissa Khwani Bazaar' },
+    timestamp: day('2026-10-03'),
+  },
+  {
+    id: 'almonds',
+    objectName: 'Almonds (Kaghzi Badām)',
+    price: { min: 2000, typical: 2400, max: 2800, unit: 'kg', confidence: 'medium' },
+    quantity: 2,
+    notes: 'Ask for the fresh crop',
+    market: { city: 'Peshawar' },
+    timestamp: day('2026-10-05', 23),
+  },
+  {
+    id: 'ajrak',
+    objectName: 'ajrak shawl',
+    price: { min: 900, typical: 1200, max: 1500, unit: 'piece', confidence: 'high' },
+    paidPKR: 1000,
+    market: { city: 'Karachi', bazaarId: 'zainab-market', bazaarName: 'Zainab Market' },
+    timestamp: day('2026-10-08'),
+  },
+  { id: 'legacy', objectName: 'Brass Lamp', price: null, legacyPriceText: 'Rs. 800-1000', timestamp: day('2026-09-20') },
+];
+
+const ids = (items: HistoryItem[]) => items.map(item => item.id);
+
+describe('history search and filters', () => {
+  it('matches every word across name, shop and notes, ignoring case and accents', () => {
+    expect(ids(filterHistory(LOG, { query: 'badam' }))).toEqual(['almonds']);
+    expect(ids(filterHistory(LOG, { query: 'chappal nooruddin' }))).toEqual(['chappal']);
+    expect(ids(filterHistory(LOG, { query: 'FRESH crop' }))).toEqual(['almonds']);
+    expect(filterHistory(LOG, { query: 'chappal karachi' })).toEqual([]);
+  });
+
+  it('keeps whole days at both ends of a date range', () => {
+    expect(ids(filterHistory(LOG, { query: '', from: '2026-10-03', to: '2026-10-05' }))).toEqual(['chappal', 'almonds']);
+    expect(ids(filterHistory(LOG, { query: '', to: '2026-09-30' }))).toEqual(['legacy']);
+  });
+
+  it('filters by bazaar, or by city when no bazaar was matched', () => {
+    expect(ids(filterHistory(LOG, { query: '', place: 'zainab-market' }))).toEqual(['ajrak']);
+    expect(ids(filterHistory(LOG, { query: '', place: 'city:Peshawar' }))).toEqual(['almonds']);
+    expect(historyPlaces(LOG)).toEqual([
+      { key: 'city:Peshawar', label: 'Peshawar' },
+      { key: 'qissa-khwani', label: 'Qissa Khwani Bazaar, Peshawar' },
+      { key: 'zainab-market', label: 'Zainab Market, Karachi' },
+    ]);
+  });
+
+  it('bands on the amount paid, falling back to the estimate for the quantity', () => {
+    expect(ids(filterHistory(LOG, { query: '', minPKR: 2000 }))).toEqual(['chappal', 'almonds']);
+    expect(ids(filterHistory(LOG, { query: '', minPKR: 500, maxPKR: 2300 }))).toEqual(['chappal', 'ajrak']);
+  });
+
+  it('knows when any filter is set', () => {
+    expect(isFiltered(NO_FILTERS)).toBe(false);
+    expect(isFiltered({ query: '  ' })).toBe(false);
+    expect(isFiltered({ query: '', maxPKR: 0 })).toBe(true);
+  });
+});
+
+describe('history sorting', () => {
+  it('sorts by date either way', () => {
+    expect(ids(sortHistory(LOG, 'newest'))).toEqual(['ajrak', 'almonds', 'chappal', 'legacy']);
+    expect(ids(sortHistory(LOG, 'oldest'))).toEqual(['legacy', 'chappal', 'almonds', 'ajrak']);
+  });
+
+  it('sorts by price with unpriced entries last', () => {
+    expect(ids(sortHistory(LOG, 'price-high'))).toEqual(['almonds', 'chappal', 'ajrak', 'legacy']);
+    expect(ids(sortHistory(LOG, 'price-low'))).toEqual(['ajrak', 'chappal', 'almonds', 'legacy']);
+  });
+
+  it('sorts names regardless of case without touching the input', () => {
+    expect(ids(sortHistory(LOG, 'name'))).toEqual(['ajrak', 'almonds', 'legacy', 'chappal']);
+    expect(ids(LOG)).toEqual(['chappal', 'almonds', 'ajrak', 'legacy']);
+  });
+});
@@ -0,0 +1,118 @@
+import { HistoryItem } from "../types.ts";
+import { estimatedCost } from "./ledger.ts";
+import { describeMarket } from "./location.ts";
+
+export type HistorySort = 'newest' | 'oldest' | 'price-high' | 'price-low' | 'name';
+
+export const HISTORY_SORTS: { value: HistorySort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'price-high', label: 'Price: high to low' },
+  { value: 'price-low', label: 'Price: low to high' },
+  { value: 'name', label: 'Name A–Z' },
+];
+
+export interface HistoryFilters {
+  /** Free text; every word must appear in the item name, shop or notes. */
+  query: string;
+  /** Inclusive local dates as `YYYY-MM-DD`, the format of a date input. */
+  from?: string;
+  to?: string;
+  /** A key from `historyPlaces`. */
+  place?: string;
+  /** Price band in PKR, applied to `entryPrice`. */
+  minPKR?: number;
+  maxPKR?: number;
+}
+
+export const NO_FILTERS: HistoryFilters = { query: '' };
+
+export interface HistoryPlace {
+  key: string;
+  label: string;
+}
+
+function searchText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/** Start of a `YYYY-MM-DD` day in local time, or null if it doesn't parse. */
+function localDayStart(date: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+}
+
+/** What an entry cost: the amount paid, or failing that the scaled estimate. */
+export function entryPrice(item: HistoryItem): number | null {
+  return item.paidPKR ?? estimatedCost(item);
+}
+
+/** Bazaar id when one was matched, otherwise the city, so city-only entries still filter. */
+export function placeKey(item: HistoryItem): string | null {
+  if (!item.market) return null;
+  return item.market.bazaarId ?? `city:${item.market.city}`;
+}
+
+/** Distinct places in the log, for the bazaar filter, sorted by label. */
+export function historyPlaces(history: HistoryItem[]): HistoryPlace[] {
+  const places = new Map<string, string>();
+  for (const item of history) {
+    const key = placeKey(item);
+    if (key && item.market && !places.has(key)) places.set(key, describeMarket(item.market));
+  }
+  return Array.from(places, ([key, label]) => ({ key, label })).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export function isFiltered(filters: HistoryFilters): boolean {
+  return filters.query.trim() !== '' || !!filters.from || !!filters.to || !!filters.place
+    || filters.minPKR !== undefined || filters.maxPKR !== undefined;
+}
+
+export function filterHistory(history: HistoryItem[], filters: HistoryFilters): HistoryItem[] {
+  const words = searchText(filters.query).split(/\s+/).filter(Boolean);
+  const from = filters.from ? localDayStart(filters.from) : null;
+  const toStart = filters.to ? localDayStart(filters.to) : null;
+  // End of the `to` day, found via the next midnight so DST changes don't matter.
+  const to = toStart !== null ? new Date(toStart).setDate(new Date(toStart).getDate() + 1) : null;
+  const banded = filters.minPKR !== undefined || filters.maxPKR !== undefined;
+
+  return history.filter(item => {
+    if (words.length > 0) {
+      const text = searchText([item.objectName, item.shopName, item.notes].filter(Boolean).join(' '));
+      if (!words.every(word => text.includes(word))) return false;
+    }
+    if (from !== null && item.timestamp < from) return false;
+    if (to !== null && item.timestamp >= to) return false;
+    if (filters.place && placeKey(item) !== filters.place) return false;
+    if (banded) {
+      const price = entryPrice(item);
+      if (price === null) return false;
+      if (filters.minPKR !== undefined && price < filters.minPKR) return false;
+      if (filters.maxPKR !== undefined && price > filters.maxPKR) return false;
+    }
+    return true;
+  });
+}
+
+/** A sorted copy. Entries without a price sort last whichever way prices run. */
+export function sortHistory(history: HistoryItem[], sort: HistorySort): HistoryItem[] {
+  const byPrice = (direction: 1 | -1) => (a: HistoryItem, b: HistoryItem) => {
+    const pa = entryPrice(a);
+    const pb = entryPrice(b);
+    if (pa === null || pb === null) return pa === pb ? b.timestamp - a.timestamp : pa === null ? 1 : -1;
+    return (pa - pb) * direction || b.timestamp - a.timestamp;
+  };
+  const compare: Record<HistorySort, (a: HistoryItem, b: HistoryItem) => number> = {
+    newest: (a, b) => b.timestamp - a.timestamp,
+    oldest: (a, b) => a.timestamp - b.timestamp,
+    'price-high': byPrice(-1),
+    'price-low': byPrice(1),
+    name: (a, b) => a.objectName.localeCompare(b.objectName, undefined, { sensitivity: 'base' }) || b.timestamp - a.timestamp,
+  };
+  return [...history].sort(compare[sort]);
+}
+
+export function queryHistory(history: HistoryItem[], filters: HistoryFilters, sort: HistorySort): HistoryItem[] {
+  return sortHistory(filterHistory(history, filters), sort);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { readExifOrientation } from './image.ts';
+
+/** Smallest JPEG prefix carrying an APP1 Exif block with one orientation entry. */
+function exifJpeg(orientation: number, littleEndian = false): ArrayBuffer {
+  const tiff = new DataView(new ArrayBuffer(26));
+  tiff.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, littleEndian);
+  tiff.setUint32(4, 8, littleEndian);
+  tiff.setUint16(8, 1, littleEndian);
+  tiff.setUint16(10, 0x0112, littleEndian);
+  tiff.setUint16(12, 3, littleEndian);
+  tiff.setUint32(14, 1, littleEndian);
+  tiff.setUint16(18, orientation, littleEndian);
+
+  const bytes = new Uint8Array(4 + 2 + 6 + 26);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0xffd8);
+  view.setUint16(2, 0xffe1);
+  view.setUint16(4, 2 + 6 + 26);
+  bytes.set([0x45, 0x78, 0x69, 0x66, 0, 0], 6);
+  bytes.set(new Uint8Array(tiff.buffer), 12);
+  return bytes.buffer;
+}
+
+describe('readExifOrientation', () => {
+  it('reads the orientation tag in either byte order', () => {
+    expect(readExifOrientation(exifJpeg(6))).toBe(6);
+    expect(readExifOrientation(exifJpeg(8, true))).toBe(8);
+  });
+
+  it('defaults to upright for files without usable EXIF', () => {
+    expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(1);
+    expect(readExifOrientation(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2]).buffer)).toBe(1);
+    expect(readExifOrientation(exifJpeg(42))).toBe(1);
+  });
+});
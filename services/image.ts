@@ -0,0 +1,192 @@
+import { BoundingBox } from "../types.ts";
+
+/**
+ * Downscales a base64 JPEG (as produced by CameraView) to a small data URL
+ * suitable for storing alongside a scan.
+ */
+export function createThumbnail(base64Jpeg: string, maxSize = 320, quality = 0.7): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas unavailable for thumbnail.'));
+        return;
+      }
+      context.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', quality));
+    };
+    img.onerror = () => reject(new Error('Could not decode captured image.'));
+    img.src = `data:image/jpeg;base64,${base64Jpeg}`;
+  });
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode image.'));
+    img.src = src;
+  });
+}
+
+/** Cuts one item out of a captured photo as a small JPEG data URL, with a little margin around its box. */
+export async function cropImage(base64Jpeg: string, box: BoundingBox, maxSize = 320, quality = 0.7): Promise<string> {
+  const img = await loadImage(`data:image/jpeg;base64,${base64Jpeg}`);
+  const margin = 0.04;
+  const left = Math.max(0, box.x - margin) * img.width;
+  const top = Math.max(0, box.y - margin) * img.height;
+  const width = Math.min(1, box.x + box.width + margin) * img.width - left;
+  const height = Math.min(1, box.y + box.height + margin) * img.height - top;
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas unavailable for cropping.');
+  context.drawImage(img, left, top, width, height, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+/**
+ * 64-bit difference hash (dHash) of an image, as 16 hex characters. Similar
+ * photos of the same item land within a few bits of each other.
+ */
+export async function computeImageHash(dataUrl: string): Promise<string> {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = 9;
+  canvas.height = 8;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas unavailable for hashing.');
+  context.drawImage(img, 0, 0, 9, 8);
+  const { data } = context.getImageData(0, 0, 9, 8);
+
+  const luma = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hex = '';
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) {
+      byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * EXIF orientation (1-8) of a JPEG, or 1 when it has none. Only walks the
+ * APP1 segment's first IFD, which is where cameras put the tag.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    // Stop at start of scan; image data follows and has no more metadata.
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+/** Canvas transform that turns raw sensor pixels upright for an EXIF orientation. */
+function applyOrientation(context: CanvasRenderingContext2D, orientation: number, width: number, height: number) {
+  switch (orientation) {
+    case 2: context.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: context.transform(-1, 0, 0, -1, width, height); break;
+    case 4: context.transform(1, 0, 0, -1, 0, height); break;
+    case 5: context.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: context.transform(0, 1, -1, 0, height, 0); break;
+    case 7: context.transform(0, -1, -1, 0, height, width); break;
+    case 8: context.transform(0, -1, 1, 0, 0, width); break;
+  }
+}
+
+/**
+ * Reads a picked or dropped photo into the same base64 JPEG CameraView
+ * produces, upright and at most `maxSize` on its long side. Browsers that
+ * decode with `imageOrientation` (or rotate `<img>` themselves) handle EXIF;
+ * for the rest the orientation tag is applied by hand.
+ */
+export async function loadImageFile(file: File, maxSize = 1024, quality = 0.8): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error('That file is not an image.');
+
+  let source: CanvasImageSource;
+  let width: number;
+  let height: number;
+  let orientation = 1;
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    source = bitmap;
+    width = bitmap.width;
+    height = bitmap.height;
+  } catch {
+    const url = URL.createObjectURL(file);
+    try {
+      const img = await loadImage(url);
+      source = img;
+      width = img.naturalWidth;
+      height = img.naturalHeight;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    const autoRotates = typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+    if (!autoRotates && file.type === 'image/jpeg') orientation = readExifOrientation(await file.arrayBuffer());
+  }
+
+  const swapped = orientation >= 5;
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const drawWidth = Math.round(width * scale);
+  const drawHeight = Math.round(height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swapped ? drawHeight : drawWidth;
+  canvas.height = swapped ? drawWidth : drawHeight;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas unavailable for the photo.');
+  applyOrientation(context, orientation, drawWidth, drawHeight);
+  context.drawImage(source, 0, 0, drawWidth, drawHeight);
+  if ('close' in source) source.close();
+  return canvas.toDataURL('image/jpeg', quality).split(',')[1];
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { measureQuality, qualityIssues } from './imageQuality.ts';
+
+const SIZE = 32;
+
+/** RGBA frame whose grey level comes from `shade(x, y)`. */
+function frame(shade: (x: number, y: number) => number): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = (y * SIZE + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = shade(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return data;
+}
+
+const checkerboard = (low: number, high: number) => frame((x, y) => ((x >> 2) + (y >> 2)) % 2 ? high : low);
+
+describe('image quality checks', () => {
+  it('passes a well-exposed frame with sharp edges', () => {
+    const metrics = measureQuality(checkerboard(60, 190), SIZE, SIZE);
+    expect(metrics.brightness).toBeCloseTo(125, 0);
+    expect(qualityIssues(metrics)).toEqual([]);
+  });
+
+  it('flags a smooth frame as blurry', () => {
+    const gradient = frame(x => 100 + x);
+    expect(qualityIssues(measureQuality(gradient, SIZE, SIZE))).toEqual(['blurry']);
+  });
+
+  it('flags dark frames without also calling them blurry', () => {
+    expect(qualityIssues(measureQuality(frame(() => 12), SIZE, SIZE))).toEqual(['dark']);
+  });
+
+  it('flags blown highlights as overexposed', () => {
+    const metrics = measureQuality(checkerboard(120, 255), SIZE, SIZE);
+    expect(metrics.highlightClipping).toBeCloseTo(0.5);
+    expect(qualityIssues(metrics)).toEqual(['overexposed']);
+  });
+});
@@ -0,0 +1,93 @@
+import { loadImage } from "./image.ts";
+
+/** Sharpness, brightness and clipping of a frame, measured on its luma. */
+export interface QualityMetrics {
+  /** Variance of the Laplacian; low means few edges, i.e. blur or a blank frame. */
+  sharpness: number;
+  /** Mean luma, 0-255. */
+  brightness: number;
+  /** Share of pixels at or near white. */
+  highlightClipping: number;
+}
+
+export type QualityIssue = 'blurry' | 'dark' | 'overexposed';
+
+/** Long side the frame is scaled to before measuring; keeps the check well under a frame's time. */
+const ANALYSIS_SIZE = 512;
+
+export const QUALITY_THRESHOLDS = {
+  minSharpness: 50,
+  minBrightness: 45,
+  maxBrightness: 225,
+  maxHighlightClipping: 0.3,
+};
+
+export const QUALITY_ADVICE: Record<QualityIssue, { label: string; tip: string }> = {
+  blurry: { label: 'Looks blurry', tip: 'Hold steady, tap to focus, and keep the item at least a hand\'s length away.' },
+  dark: { label: 'Too dark', tip: 'Step toward the stall lights or turn the item toward the street.' },
+  overexposed: { label: 'Washed out', tip: 'Move out of direct sun or angle away from the glare.' },
+};
+
+/** Measures RGBA pixels as returned by `getImageData`. */
+export function measureQuality(data: Uint8ClampedArray, width: number, height: number): QualityMetrics {
+  const luma = new Float32Array(width * height);
+  let sum = 0;
+  let clipped = 0;
+  for (let i = 0; i < luma.length; i++) {
+    const value = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+    luma[i] = value;
+    sum += value;
+    if (value >= 250) clipped++;
+  }
+
+  let lapSum = 0;
+  let lapSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+      lapSum += lap;
+      lapSquares += lap * lap;
+      count++;
+    }
+  }
+  const lapMean = count > 0 ? lapSum / count : 0;
+
+  return {
+    sharpness: count > 0 ? lapSquares / count - lapMean * lapMean : 0,
+    brightness: luma.length > 0 ? sum / luma.length : 0,
+    highlightClipping: luma.length > 0 ? clipped / luma.length : 0,
+  };
+}
+
+export function qualityIssues(metrics: QualityMetrics, thresholds = QUALITY_THRESHOLDS): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  if (metrics.brightness < thresholds.minBrightness) issues.push('dark');
+  else if (metrics.brightness > thresholds.maxBrightness || metrics.highlightClipping > thresholds.maxHighlightClipping) issues.push('overexposed');
+  // Dark frames have weak edges anyway; only call them blurry when exposure is usable.
+  if (issues.length === 0 && metrics.sharpness < thresholds.minSharpness) issues.push('blurry');
+  return issues;
+}
+
+/**
+ * Checks a base64 JPEG before it is sent for analysis. Resolves to no issues
+ * when the frame can't be decoded here, so the check never blocks a capture.
+ */
+export async function checkImageQuality(base64Jpeg: string): Promise<QualityIssue[]> {
+  try {
+    const img = await loadImage(`data:image/jpeg;base64,${base64Jpeg}`);
+    const scale = Math.min(1, ANALYSIS_SIZE / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(3, Math.round(img.width * scale));
+    canvas.height = Math.max(3, Math.round(img.height * scale));
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return [];
+    context.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    return qualityIssues(measureQuality(data, canvas.width, canvas.height));
+  } catch (e) {
+    console.warn("Quality check skipped", e);
+    return [];
+  }
+}
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AuthError } from './errors.ts';
+import { clearStoredKey, hasStoredKey, storeKey, storedKeyHint, unlockKey } from './keyVault.ts';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('key vault', () => {
+  it('round-trips a key through its passphrase without storing it in the clear', async () => {
+    await storeKey('AIzaSy-test-key-1234', 'open sesame');
+
+    expect(hasStoredKey()).toBe(true);
+    expect(storedKeyHint()).toBe('1234');
+    expect(JSON.stringify(localStorage)).not.toContain('AIzaSy-test-key');
+    await expect(unlockKey('open sesame')).resolves.toBe('AIzaSy-test-key-1234');
+  });
+
+  it('rejects the wrong passphrase', async () => {
+    await storeKey('AIzaSy-test-key-1234', 'open sesame');
+    await expect(unlockKey('open barley')).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it('uses a fresh salt for every key it stores', async () => {
+    await storeKey('same-key', 'pass');
+    const first = localStorage.getItem('bazaar_key_vault');
+    await storeKey('same-key', 'pass');
+    expect(localStorage.getItem('bazaar_key_vault')).not.toBe(first);
+  });
+
+  it('forgets the key when cleared', async () => {
+    await storeKey('AIzaSy-test-key-1234', 'open sesame');
+    clearStoredKey();
+    expect(hasStoredKey()).toBe(false);
+    await expect(unlockKey('open sesame')).rejects.toThrow('No API key is stored');
+  });
+});
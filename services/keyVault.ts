@@ -0,0 +1,103 @@
+import { AuthError } from "./errors.ts";
+
+const VAULT_KEY = 'bazaar_key_vault';
+const PBKDF2_ITERATIONS = 310000;
+
+/** What is kept in localStorage: the API key sealed with AES-GCM under a passphrase-derived key. */
+interface SealedKey {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+  /** Last four characters, so settings can say which key is stored without unlocking it. */
+  hint: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function readSealed(): SealedKey | null {
+  try {
+    const sealed = JSON.parse(localStorage.getItem(VAULT_KEY) ?? 'null');
+    return sealed?.version === 1 ? sealed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function hasStoredKey(): boolean {
+  return readSealed() !== null;
+}
+
+/** Last four characters of the stored key, or null when nothing is stored. */
+export function storedKeyHint(): string | null {
+  return readSealed()?.hint ?? null;
+}
+
+/** Encrypts the key under the passphrase and replaces whatever was stored. */
+export async function storeKey(apiKey: string, passphrase: string): Promise<void> {
+  if (!passphrase) throw new AuthError('A passphrase is required to store the key.');
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey)));
+  const sealed: SealedKey = {
+    version: 1,
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(ciphertext),
+    hint: apiKey.slice(-4),
+  };
+  localStorage.setItem(VAULT_KEY, JSON.stringify(sealed));
+}
+
+/** Decrypts the stored key. A wrong passphrase fails the GCM tag check and raises `AuthError`. */
+export async function unlockKey(passphrase: string): Promise<string> {
+  const sealed = readSealed();
+  if (!sealed) throw new AuthError('No API key is stored on this device.');
+  const key = await deriveKey(passphrase, fromBase64(sealed.salt), sealed.iterations);
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.ciphertext));
+    return new TextDecoder().decode(plain);
+  } catch (err) {
+    throw new AuthError('Wrong passphrase for the stored API key.', { cause: err });
+  }
+}
+
+export function clearStoredKey() {
+  localStorage.removeItem(VAULT_KEY);
+}
+
+function buildTimeKey(): string | null {
+  const apiKey = process.env.API_KEY;
+  return apiKey && !apiKey.includes("your_actual") ? apiKey : null;
+}
+
+/**
+ * The key for this session. Vite replaces `process.env.API_KEY` with a
+ * constant at build time, so the key entered or unlocked in Settings has to
+ * live here rather than be written back to it.
+ */
+let activeKey: string | null = buildTimeKey();
+
+/** The key calls are made with this session, or null until one is entered or unlocked. */
+export function getActiveKey(): string | null {
+  return activeKey;
+}
+
+export function setActiveKey(apiKey: string | null) {
+  activeKey = apiKey || null;
+}
@@ -0,0 +1,40 @@
+import { HistoryItem } from "../types.ts";
+
+export interface LedgerSummary {
+  /** Entries with a recorded paid amount and an estimate to compare against. */
+  comparedCount: number;
+  totalPaid: number;
+  totalEstimated: number;
+  /** Positive when we paid less than the estimates overall. */
+  totalSavings: number;
+}
+
+/** The AI's typical price scaled to the quantity bought. */
+export function estimatedCost(item: HistoryItem): number | null {
+  if (!item.price) return null;
+  return Math.round(item.price.typical * (item.quantity ?? 1));
+}
+
+/**
+ * Difference between the estimate and what was paid. Positive means we
+ * bargained below the estimate, negative means we overpaid. Null when the
+ * entry has no paid amount or no estimate.
+ */
+export function dealSavings(item: HistoryItem): number | null {
+  const estimate = estimatedCost(item);
+  if (estimate === null || item.paidPKR === undefined) return null;
+  return estimate - item.paidPKR;
+}
+
+export function summarizeLedger(items: HistoryItem[]): LedgerSummary {
+  return items.reduce<LedgerSummary>((summary, item) => {
+    const savings = dealSavings(item);
+    if (savings === null) return summary;
+    return {
+      comparedCount: summary.comparedCount + 1,
+      totalPaid: summary.totalPaid + item.paidPKR!,
+      totalEstimated: summary.totalEstimated + estimatedCost(item)!,
+      totalSavings: summary.totalSavings + savings,
+    };
+  }, { comparedCount: 0, totalPaid: 0, totalEstimated: 0, totalSavings: 0 });
+}
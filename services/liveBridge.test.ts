@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const liveConnect = vi.fn();
+
+vi.mock('@google/genai', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@google/genai')>();
+  return {
+    ...actual,
+    GoogleGenAI: vi.fn(() => ({ live: { connect: liveConnect } })),
+  };
+});
+
+vi.mock('./audioCapture.ts', () => ({
+  startAudioCapture: vi.fn(async () => ({ stop: vi.fn() })),
+}));
+
+import { LiveBridgeSession } from './liveBridge.ts';
+import { DEFAULT_PROFILE } from './cityProfiles.ts';
+import { BazaarError } from './errors.ts';
+
+class FakeAudioContext {
+  state = 'running';
+  close() { this.state = 'closed'; }
+}
+
+function openSession(options: Partial<ConstructorParameters<typeof LiveBridgeSession>[0]> = {}) {
+  const bridge = new LiveBridgeSession({ apiKey: 'test-key', sellerLanguage: 'urdu', profile: DEFAULT_PROFILE, ...options });
+  const errors: BazaarError[] = [];
+  bridge.on('error', error => errors.push(error));
+  return { bridge, errors };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  liveConnect.mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('LiveBridgeSession reconnects', () => {
+  it('gives up at once when the server accepts the socket and then closes it on policy grounds', async () => {
+    liveConnect.mockImplementation(async ({ callbacks }) => {
+      setTimeout(() => {
+        callbacks.onopen();
+        callbacks.onclose({ code: 1008, reason: '' } as CloseEvent);
+      }, 0);
+      return { close: vi.fn(), sendRealtimeInput: vi.fn() };
+    });
+    const { bridge, errors } = openSession();
+
+    await bridge.start();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(liveConnect).toHaveBeenCalledTimes(1);
+    expect(bridge.status).toBe('error');
+    expect(errors.map(error => error.kind)).toEqual(['auth']);
+  });
+
+  it('does not retry a rejected key', async () => {
+    liveConnect.mockRejectedValue(new Error('API key not valid. Please pass a valid API key.'));
+    const { bridge, errors } = openSession();
+
+    await bridge.start();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(liveConnect).toHaveBeenCalledTimes(1);
+    expect(errors.map(error => error.kind)).toEqual(['auth']);
+  });
+
+  it('stops after the attempt limit when sockets open but the server never speaks', async () => {
+    liveConnect.mockImplementation(async ({ callbacks }) => {
+      setTimeout(() => {
+        callbacks.onopen();
+        callbacks.onclose({ code: 1006, reason: '' } as CloseEvent);
+      }, 0);
+      return { close: vi.fn(), sendRealtimeInput: vi.fn() };
+    });
+    const { bridge, errors } = openSession({ maxReconnectAttempts: 2 });
+
+    await bridge.start();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(liveConnect).toHaveBeenCalledTimes(3);
+    expect(errors.map(error => error.kind)).toEqual(['network']);
+  });
+});
+
+describe('LiveBridgeSession push-to-talk', () => {
+  it('credits late transcriptions to the turn they belong to, not the new floor holder', async () => {
+    let onmessage!: (message: unknown) => void;
+    liveConnect.mockImplementation(async ({ callbacks }) => {
+      onmessage = callbacks.onmessage;
+      return { close: vi.fn(), sendRealtimeInput: vi.fn() };
+    });
+    const { bridge } = openSession({ mode: 'pushToTalk' });
+    await bridge.start();
+
+    bridge.beginTurn('traveler');
+    onmessage({ serverContent: { inputTranscription: { text: 'How much?' } } });
+    bridge.endTurn();
+    // The seller grabs the floor before the traveler's translation has finished arriving.
+    bridge.beginTurn('seller');
+    onmessage({ serverContent: { outputTranscription: { text: 'Kitne ka hai?' } } });
+    onmessage({ serverContent: { turnComplete: true } });
+    onmessage({ serverContent: { inputTranscription: { text: 'Do hazaar' } } });
+
+    expect(bridge.messages.map(m => [m.role, m.text, !!m.translation])).toEqual([
+      ['traveler', 'How much?', false],
+      ['traveler', 'Kitne ka hai?', true],
+      ['seller', 'Do hazaar', false],
+    ]);
+  });
+});
@@ -0,0 +1,402 @@
+import { GoogleGenAI, LiveServerMessage, Modality, Session } from "@google/genai";
+import { BridgeMode, ChatMessage, CityProfile, SellerLanguage } from "../types.ts";
+import { describeLanguage } from "./cityProfiles.ts";
+import { AudioCapture, startAudioCapture } from "./audioCapture.ts";
+import { decode, decodeAudioData } from "./gemini.ts";
+import { AuthError, BazaarError, NetworkError, classifyError } from "./errors.ts";
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+export type LiveBridgeStatus = 'idle' | 'connecting' | 'listening' | 'speaking' | 'reconnecting' | 'error';
+
+export interface LiveBridgeEvents {
+  status: LiveBridgeStatus;
+  /** The whole transcript so far, emitted on every change. */
+  transcript: ChatMessage[];
+  /** A turn finished and every message in the transcript is final. */
+  turnComplete: ChatMessage[];
+  /** The session could not start, or gave up after exhausting its reconnect attempts. */
+  error: BazaarError;
+  /** Push-to-talk only: who holds the floor, or null between turns. */
+  speaker: Speaker | null;
+}
+
+export type Speaker = ChatMessage['role'];
+
+export interface LiveBridgeOptions {
+  apiKey: string;
+  sellerLanguage: SellerLanguage;
+  profile: CityProfile;
+  /** Defaults to 'passive'. */
+  mode?: BridgeMode;
+  /** Consecutive failed reconnects before the session gives up. Defaults to 5. */
+  maxReconnectAttempts?: number;
+}
+
+/** Bridge settings chosen by the UI; providers add their own credentials. */
+export type LiveBridgeConfig = Omit<LiveBridgeOptions, 'apiKey'>;
+
+/** What the UI drives, whichever provider is behind it. */
+export interface LiveBridge {
+  readonly status: LiveBridgeStatus;
+  readonly messages: ChatMessage[];
+  readonly mode: BridgeMode;
+  on<K extends keyof LiveBridgeEvents>(event: K, listener: Listener<K>): () => void;
+  start(): Promise<void>;
+  stop(): void;
+  beginTurn(speaker: Speaker): boolean;
+  endTurn(): void;
+}
+
+type Listener<K extends keyof LiveBridgeEvents> = (payload: LiveBridgeEvents[K]) => void;
+
+export class BridgeEmitter {
+  private listeners = new Map<keyof LiveBridgeEvents, Set<Listener<any>>>();
+
+  on<K extends keyof LiveBridgeEvents>(event: K, listener: Listener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) this.listeners.set(event, set = new Set());
+    set.add(listener);
+    return () => { set.delete(listener); };
+  }
+
+  emit<K extends keyof LiveBridgeEvents>(event: K, payload: LiveBridgeEvents[K]) {
+    this.listeners.get(event)?.forEach(listener => listener(payload));
+  }
+}
+
+const MAX_BACKOFF_MS = 15000;
+/** Close codes the server sends for a bad key, exhausted quota or a policy breach; reconnecting cannot help. */
+const FATAL_CLOSE_CODES = new Set([1007, 1008]);
+
+export function bridgeInstruction(sellerLanguage: SellerLanguage, profile: CityProfile, mode: BridgeMode = 'passive'): string {
+  if (mode === 'pushToTalk') {
+    return `ACT AS A TURN-BY-TURN INTERPRETER.
+1. Each turn starts with a text note naming the speaker and the direction, e.g. "[TRAVELER: English -> ${sellerLanguage.toUpperCase()}]".
+2. Translate ONLY that turn's speech, in the direction given by the note. Never answer or add anything yourself.
+3. Speak ${describeLanguage(sellerLanguage, profile)} when translating into ${sellerLanguage.toUpperCase()}, and clear simple English otherwise.`;
+  }
+  return `ACT AS A PASSIVE BRIDGE TRANSLATOR.
+1. DO NOT initiate conversation.
+2. DO NOT talk by yourself.
+3. WAIT for either the English speaker or the ${sellerLanguage.toUpperCase()} speaker.
+4. TRANSLATE English to clear, natural ${sellerLanguage.toUpperCase()} and vice versa.
+5. Speak ${describeLanguage(sellerLanguage, profile)} so local sellers understand you naturally.`;
+}
+
+/**
+ * One speech-to-speech translation session over the Live API. Owns the
+ * microphone, the playback queue and the transcript. Dropped sockets are
+ * reconnected with exponential backoff, resuming the server-side session
+ * when a resumption handle is available; the transcript survives reconnects.
+ */
+export class LiveBridgeSession implements LiveBridge {
+  private readonly options: LiveBridgeOptions;
+  private readonly ai: GoogleGenAI;
+  private events = new BridgeEmitter();
+  private session: Session | null = null;
+  private capture: AudioCapture | null = null;
+  private output: AudioContext | null = null;
+  private sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  /** Bumped on every connect so callbacks from stale sockets are ignored. */
+  private generation = 0;
+  /** Bumped on interruption so audio still decoding for a cut-off turn is dropped. */
+  private playbackGeneration = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private resumptionHandle: string | undefined;
+  private active = false;
+  /** Speaker of the push-to-talk turn being held, if any. */
+  private floor: Speaker | null = null;
+  /** Speaker of the latest push-to-talk turn. */
+  private turnOwner: Speaker | null = null;
+  /**
+   * Speakers of push-to-talk turns the server has not finished, oldest first.
+   * Transcriptions keep arriving after the floor changes hands, so they are
+   * credited to the turn they belong to until its `turnComplete`.
+   */
+  private pendingOwners: Speaker[] = [];
+  private currentStatus: LiveBridgeStatus = 'idle';
+  private transcript: ChatMessage[] = [];
+
+  constructor(options: LiveBridgeOptions) {
+    this.options = options;
+    this.ai = new GoogleGenAI({ apiKey: options.apiKey });
+  }
+
+  get status(): LiveBridgeStatus {
+    return this.currentStatus;
+  }
+
+  get messages(): ChatMessage[] {
+    return this.transcript;
+  }
+
+  get mode(): BridgeMode {
+    return this.options.mode ?? 'passive';
+  }
+
+  on<K extends keyof LiveBridgeEvents>(event: K, listener: Listener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  async start(): Promise<void> {
+    if (this.active) return;
+    this.active = true;
+    this.reconnectAttempts = 0;
+    this.setStatus('connecting');
+    try {
+      this.output = new AudioContext({ sampleRate: 24000 });
+      this.capture = await startAudioCapture({
+        onChunk: chunk => {
+          if (this.mode === 'pushToTalk' && !this.floor) return;
+          this.session?.sendRealtimeInput({ media: chunk });
+        },
+        // audioStreamEnd is only meaningful while the server detects activity itself.
+        onSpeechEnd: () => {
+          if (this.mode === 'passive') this.session?.sendRealtimeInput({ audioStreamEnd: true });
+        },
+      });
+    } catch (err) {
+      this.fail(classifyError(err, 'microphone'));
+      return;
+    }
+    if (this.active) await this.connect();
+  }
+
+  /**
+   * Push-to-talk: gives the floor to `speaker` until `endTurn`. Cuts off any
+   * translation still playing. Returns false when not connected.
+   */
+  beginTurn(speaker: Speaker): boolean {
+    if (this.mode !== 'pushToTalk' || !this.session) return false;
+    if (this.floor) this.endTurn();
+    this.stopPlayback();
+    this.finalizeMessages();
+    this.floor = speaker;
+    this.turnOwner = speaker;
+    this.pendingOwners.push(speaker);
+    const direction = speaker === 'traveler'
+      ? `TRAVELER: English -> ${this.options.sellerLanguage.toUpperCase()}`
+      : `SELLER: ${this.options.sellerLanguage.toUpperCase()} -> English`;
+    this.session.sendRealtimeInput({ activityStart: {} });
+    this.session.sendRealtimeInput({ text: `[${direction}]` });
+    this.setStatus('listening');
+    this.emit('speaker', speaker);
+    return true;
+  }
+
+  endTurn(): void {
+    if (!this.floor) return;
+    this.floor = null;
+    this.session?.sendRealtimeInput({ activityEnd: {} });
+    this.emit('speaker', null);
+  }
+
+  stop(): void {
+    if (!this.active) return;
+    this.shutdown();
+    this.setStatus('idle');
+  }
+
+  private async connect(): Promise<void> {
+    const generation = ++this.generation;
+    try {
+      const session = await this.ai.live.connect({
+        model: LIVE_MODEL,
+        callbacks: {
+          onopen: () => {
+            if (generation === this.generation) this.setStatus('listening');
+          },
+          onmessage: (message: LiveServerMessage) => {
+            if (generation === this.generation) this.handleMessage(message);
+          },
+          onerror: (e) => {
+            if (generation === this.generation) console.error('Live bridge socket error:', e);
+          },
+          onclose: (event: CloseEvent) => {
+            if (generation === this.generation) this.handleClose(event);
+          },
+        },
+        config: {
+          responseModalities: [Modality.AUDIO],
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          sessionResumption: { handle: this.resumptionHandle },
+          realtimeInputConfig: this.mode === 'pushToTalk' ? { automaticActivityDetection: { disabled: true } } : undefined,
+          systemInstruction: bridgeInstruction(this.options.sellerLanguage, this.options.profile, this.mode),
+        },
+      });
+      if (generation !== this.generation || !this.active) {
+        session.close();
+        return;
+      }
+      this.session = session;
+    } catch (err) {
+      if (generation === this.generation) this.handleDisconnect(classifyError(err));
+    }
+  }
+
+  private handleClose(event: CloseEvent) {
+    if (!FATAL_CLOSE_CODES.has(event.code)) {
+      this.handleDisconnect();
+      return;
+    }
+    const error = classifyError(new Error(event.reason || `Live session closed by the server (${event.code})`));
+    this.handleDisconnect(error.kind === 'unknown' || error.kind === 'network' ? new AuthError(error.message, { cause: event }) : error, true);
+  }
+
+  /** `fatal` skips the reconnect; so does an auth failure, which a retry would only repeat. */
+  private handleDisconnect(cause?: BazaarError, fatal = cause instanceof AuthError) {
+    this.session = null;
+    if (!this.active || this.reconnectTimer) return;
+    // A held turn cannot survive the socket; the speaker has to press again.
+    if (this.floor) {
+      this.floor = null;
+      this.emit('speaker', null);
+    }
+    this.pendingOwners = [];
+    this.stopPlayback();
+    this.finalizeMessages();
+
+    const maxAttempts = this.options.maxReconnectAttempts ?? 5;
+    if (fatal || this.reconnectAttempts >= maxAttempts) {
+      this.fail(cause ?? new NetworkError('Lost connection to the translation service.'));
+      return;
+    }
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_BACKOFF_MS) + Math.random() * 250;
+    this.reconnectAttempts++;
+    this.setStatus('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.active) this.connect();
+    }, delay);
+  }
+
+  private handleMessage(message: LiveServerMessage) {
+    // Only a socket the server actually talks on counts as recovered; an
+    // open-then-close loop must keep counting towards giving up.
+    this.reconnectAttempts = 0;
+    const update = message.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) this.resumptionHandle = update.newHandle;
+
+    // The server is about to drop the socket; close it ourselves and resume on a fresh one.
+    if (message.goAway) {
+      this.session?.close();
+      return;
+    }
+
+    const content = message.serverContent;
+    if (!content) return;
+
+    if (this.mode === 'pushToTalk') {
+      const owner = this.pendingOwners[0] ?? this.turnOwner ?? 'traveler';
+      if (content.inputTranscription?.text) this.appendText(owner, content.inputTranscription.text, false);
+      if (content.outputTranscription?.text) this.appendText(owner, content.outputTranscription.text, true);
+    } else {
+      if (content.inputTranscription?.text) this.appendText('traveler', content.inputTranscription.text, false);
+      if (content.outputTranscription?.text) this.appendText('seller', content.outputTranscription.text, false);
+    }
+
+    if (content.interrupted) {
+      // Only a newer turn interrupts, so every earlier one is over.
+      this.pendingOwners = this.pendingOwners.slice(-1);
+      this.stopPlayback();
+      this.finalizeMessages();
+      this.setStatus('listening');
+    }
+
+    const audioData = content.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (audioData) this.playAudio(audioData);
+
+    if (content.turnComplete) {
+      this.pendingOwners.shift();
+      this.finalizeMessages();
+      this.emit('turnComplete', this.transcript);
+    }
+  }
+
+  /** Input and output transcriptions interleave, so merge into the open message of the same kind, not just the last one. */
+  private appendText(role: Speaker, text: string, translation: boolean) {
+    const index = this.transcript.findIndex(m => !m.isFinal && m.role === role && !!m.translation === translation);
+    if (index >= 0) {
+      this.transcript = this.transcript.map((m, i) => (i === index ? { ...m, text: m.text + text } : m));
+    } else {
+      const message: ChatMessage = { id: `${Date.now()}-${this.transcript.length}`, role, text, isFinal: false, timestamp: Date.now() };
+      if (translation) message.translation = true;
+      this.transcript = [...this.transcript, message];
+    }
+    this.emit('transcript', this.transcript);
+  }
+
+  private finalizeMessages() {
+    if (this.transcript.every(m => m.isFinal)) return;
+    this.transcript = this.transcript.map(m => (m.isFinal ? m : { ...m, isFinal: true }));
+    this.emit('transcript', this.transcript);
+  }
+
+  private async playAudio(base64: string) {
+    const ctx = this.output;
+    if (!ctx || ctx.state === 'closed') return;
+    const playbackGeneration = this.playbackGeneration;
+    this.setStatus('speaking');
+    const buffer = await decodeAudioData(decode(base64), ctx);
+    if (playbackGeneration !== this.playbackGeneration || this.output !== ctx) return;
+
+    this.nextStartTime = Math.max(this.nextStartTime, ctx.currentTime);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      this.sources.delete(source);
+      if (this.sources.size === 0 && this.currentStatus === 'speaking') this.setStatus('listening');
+    };
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+    this.sources.add(source);
+  }
+
+  private stopPlayback() {
+    this.playbackGeneration++;
+    this.sources.forEach(source => { try { source.stop(); } catch (e) {} });
+    this.sources.clear();
+    this.nextStartTime = 0;
+  }
+
+  private fail(error: BazaarError) {
+    console.error('Live bridge failed:', error);
+    this.shutdown();
+    this.setStatus('error');
+    this.emit('error', error);
+  }
+
+  private shutdown() {
+    this.active = false;
+    this.floor = null;
+    this.pendingOwners = [];
+    this.generation++;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.session?.close();
+    this.session = null;
+    this.capture?.stop();
+    this.capture = null;
+    this.stopPlayback();
+    if (this.output && this.output.state !== 'closed') this.output.close();
+    this.output = null;
+    this.finalizeMessages();
+  }
+
+  private setStatus(status: LiveBridgeStatus) {
+    if (status === this.currentStatus) return;
+    this.currentStatus = status;
+    this.emit('status', status);
+  }
+
+  private emit<K extends keyof LiveBridgeEvents>(event: K, payload: LiveBridgeEvents[K]) {
+    this.events.emit(event, payload);
+  }
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { bearingDegrees, getCurrentPosition, locateMarket, mapsDirectionsUrl, walkingDirections } from './location.ts';
+
+const QISSA_KHWANI = { latitude: 34.0086, longitude: 71.5680 };
+
+describe('location', () => {
+  it('places a position inside a bazaar outline', () => {
+    expect(locateMarket(QISSA_KHWANI)).toMatchObject({ city: 'Peshawar', bazaarId: 'qissa-khwani' });
+  });
+
+  it('gives compass bearings clockwise from north', () => {
+    expect(bearingDegrees(QISSA_KHWANI, { latitude: 34.0186, longitude: 71.5680 })).toBeCloseTo(0, 0);
+    expect(bearingDegrees(QISSA_KHWANI, { latitude: 34.0086, longitude: 71.5780 })).toBeCloseTo(90, 0);
+  });
+
+  it('turns a straight line into walking directions', () => {
+    const directions = walkingDirections(QISSA_KHWANI, { latitude: 34.0110, longitude: 71.5709 });
+    expect(directions.heading).toBe('north-east');
+    expect(directions.distanceMeters).toBeGreaterThan(350);
+    expect(directions.distanceMeters).toBeLessThan(400);
+    expect(directions.minutes).toBe(5);
+  });
+
+  it('links to walking directions in a maps app', () => {
+    const url = new URL(mapsDirectionsUrl({ latitude: 34.0089, longitude: 71.5671 }, QISSA_KHWANI));
+    expect(url.searchParams.get('destination')).toBe('34.0089,71.5671');
+    expect(url.searchParams.get('origin')).toBe('34.0086,71.568');
+    expect(url.searchParams.get('travelmode')).toBe('walking');
+  });
+
+  describe('getCurrentPosition', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('gives up while the permission prompt is still unanswered', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      // A prompt nobody answers: neither callback ever fires.
+      vi.stubGlobal('navigator', { geolocation: { getCurrentPosition: vi.fn() } });
+
+      const position = getCurrentPosition(3000);
+      await vi.advanceTimersByTimeAsync(3000);
+      await expect(position).resolves.toBeNull();
+    });
+
+    it('resolves with the position when it arrives in time', async () => {
+      vi.stubGlobal('navigator', {
+        geolocation: {
+          getCurrentPosition: (success: PositionCallback) => success({ coords: QISSA_KHWANI } as GeolocationPosition),
+        },
+      });
+      await expect(getCurrentPosition()).resolves.toEqual(QISSA_KHWANI);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { Coordinates, MarketMatch } from "../types.ts";
+import { BAZAARS, BazaarEntry, CITIES } from "./gazetteer.ts";
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export function distanceMeters(a: Coordinates, b: Coordinates): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Ray-casting point-in-polygon test. Market outlines are small enough that
+ * treating lat/lon as planar is fine.
+ */
+function isInsidePolygon(point: Coordinates, polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lonI] = polygon[i];
+    const [latJ, lonJ] = polygon[j];
+    const crosses = (lonI > point.longitude) !== (lonJ > point.longitude) &&
+      point.latitude < (latJ - latI) * (point.longitude - lonI) / (lonJ - lonI) + latI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+function isInBazaar(point: Coordinates, bazaar: BazaarEntry, distance: number): boolean {
+  if (bazaar.polygon && isInsidePolygon(point, bazaar.polygon)) return true;
+  return distance <= bazaar.radiusMeters;
+}
+
+/**
+ * Works out which known bazaar, or failing that which city, a position falls in.
+ * Returns null when the user is outside every city in the gazetteer.
+ */
+export function locateMarket(coords: Coordinates): MarketMatch | null {
+  const nearest = BAZAARS
+    .map(bazaar => ({ bazaar, distance: distanceMeters(coords, bazaar.centroid) }))
+    .sort((a, b) => a.distance - b.distance)
+    .find(({ bazaar, distance }) => isInBazaar(coords, bazaar, distance));
+
+  if (nearest) {
+    return {
+      city: nearest.bazaar.city,
+      bazaarId: nearest.bazaar.id,
+      bazaarName: nearest.bazaar.name,
+      distanceMeters: Math.round(nearest.distance),
+    };
+  }
+
+  const city = CITIES
+    .map(entry => ({ entry, distance: distanceMeters(coords, entry.centroid) }))
+    .filter(({ entry, distance }) => distance <= entry.radiusMeters)
+    .sort((a, b) => a.distance - b.distance)[0];
+
+  return city ? { city: city.entry.name } : null;
+}
+
+/** Average walking pace through a crowded bazaar. */
+const WALKING_METERS_PER_MINUTE = 70;
+
+const COMPASS_POINTS = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+/** Initial compass bearing from `a` to `b`, in degrees clockwise from north. */
+export function bearingDegrees(a: Coordinates, b: Coordinates): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLon = toRad(b.longitude - a.longitude);
+  const y = Math.sin(dLon) * Math.cos(toRad(b.latitude));
+  const x = Math.cos(toRad(a.latitude)) * Math.sin(toRad(b.latitude)) -
+    Math.sin(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.cos(dLon);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+export interface WalkingDirections {
+  distanceMeters: number;
+  /** Compass direction to head in, e.g. "north-east". */
+  heading: string;
+  minutes: number;
+}
+
+/**
+ * Straight-line directions, usable without a routing service. Bazaar lanes
+ * wind, so the walking time is a lower bound.
+ */
+export function walkingDirections(from: Coordinates, to: Coordinates): WalkingDirections {
+  const distance = distanceMeters(from, to);
+  return {
+    distanceMeters: Math.round(distance),
+    heading: COMPASS_POINTS[Math.round(bearingDegrees(from, to) / 45) % 8],
+    minutes: Math.max(1, Math.round(distance / WALKING_METERS_PER_MINUTE)),
+  };
+}
+
+/** Turn-by-turn walking directions in the device's maps app, for when there is a connection. */
+export function mapsDirectionsUrl(to: Coordinates, from?: Coordinates): string {
+  const params = new URLSearchParams({ api: '1', destination: `${to.latitude},${to.longitude}`, travelmode: 'walking' });
+  if (from) params.set('origin', `${from.latitude},${from.longitude}`);
+  return `https://www.google.com/maps/dir/?${params}`;
+}
+
+export function describeMarket(market: MarketMatch): string {
+  return market.bazaarName ? `${market.bazaarName}, ${market.city}` : market.city;
+}
+
+/**
+ * Resolves to the device position, or null if geolocation is unavailable,
+ * denied, or too slow. Never rejects so capture is never blocked on it.
+ */
+export function getCurrentPosition(timeoutMs = 5000): Promise<Coordinates | null> {
+  if (!('geolocation' in navigator)) return Promise.resolve(null);
+  const lookup = new Promise<Coordinates | null>(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      pos => resolve({ latitude: pos.coords.latitude, longitude: pos.coords.longitude }),
+      err => {
+        console.warn('Bazaar-Sense: Location unavailable:', err.message);
+        resolve(null);
+      },
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 5 * 60 * 1000 },
+    );
+  });
+  // The geolocation timeout only starts once permission is granted, so an
+  // unanswered prompt would otherwise leave us waiting indefinitely.
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<null>(resolve => {
+    timer = setTimeout(() => {
+      console.warn('Bazaar-Sense: Location timed out');
+      resolve(null);
+    }, timeoutMs);
+  });
+  return Promise.race([lookup, deadline]).finally(() => clearTimeout(timer));
+}
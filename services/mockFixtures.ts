@@ -0,0 +1,100 @@
+/**
+ * Canned data for the offline mock provider. Analysis fixtures are shaped
+ * like raw model replies so they go through the same validation as real ones.
+ */
+
+export const ANALYSIS_FIXTURES: Record<string, unknown>[] = [
+  {
+    objectName: 'Peshawari Chappal',
+    price: { min: 1800, typical: 2500, max: 3500, unit: 'pair', confidence: 'high' },
+    translations: {
+      urdu: { name: 'پشاوری چپل', phonetic: 'Peshawari chappal' },
+      pashto: { name: 'پېښوري څپلۍ', phonetic: 'Pekhawri tsaplai' },
+      punjabi: { name: 'پشوری چپل', phonetic: 'Pishori chappal' },
+      sindhi: { name: 'پشاوري چپل', phonetic: 'Pishawari chappal' },
+      balochi: { name: 'پشاوری سواس', phonetic: 'Pishawari sawas' },
+      hindko: { name: 'پشوری چپل', phonetic: 'Pishori chappal' },
+    },
+    description: 'Hand-stitched leather sandal with a tyre-rubber sole, a Peshawar staple. Check the stitching along the toe strap.',
+    verifiedShops: [
+      { name: 'Chacha Nooruddin Chappal House', location: 'Jahangirpura, near Qissa Khwani', specialty: 'Hand-stitched chappals made to order' },
+      { name: 'Saddar Shoe Palace', location: 'Saddar Road', specialty: 'Ready-made chappals in bulk sizes' },
+    ],
+  },
+  {
+    objectName: 'Almonds (Kaghzi Badam)',
+    price: { min: 2200, typical: 2800, max: 3400, unit: 'kg', confidence: 'medium' },
+    translations: {
+      urdu: { name: 'کاغذی بادام', phonetic: 'Kaghzi badaam' },
+      pashto: { name: 'کاغذي بادام', phonetic: 'Kaghazi badam' },
+      punjabi: { name: 'کاغذی بدام', phonetic: 'Kaghzi badaam' },
+      sindhi: { name: 'ڪاغذي بادام', phonetic: 'Kaghzi badaam' },
+      balochi: { name: 'کاگدی بادام', phonetic: 'Kagdi badaam' },
+      hindko: { name: 'کاغذی بدام', phonetic: 'Kaghzi badaam' },
+    },
+    description: 'Thin-shelled almonds that crack between the fingers. Ask to taste one; stale nuts taste bitter.',
+    verifiedShops: [
+      { name: 'Khyber Dry Fruit Traders', location: 'Namak Mandi', specialty: 'Afghan and local dry fruit by the kg' },
+    ],
+  },
+  {
+    objectName: 'Pashmina Shawl',
+    price: { min: 6000, typical: 9000, max: 15000, unit: 'piece', confidence: 'low' },
+    translations: {
+      urdu: { name: 'پشمینہ شال', phonetic: 'Pashmina shaal' },
+      pashto: { name: 'پشمینه شال', phonetic: 'Pashmina shaal' },
+      punjabi: { name: 'پشمینہ شال', phonetic: 'Pashmina shaal' },
+      sindhi: { name: 'پشمينا شال', phonetic: 'Pashmina shaal' },
+      balochi: { name: 'پشمینہ شال', phonetic: 'Pashmina shaal' },
+      hindko: { name: 'پشمینہ شال', phonetic: 'Pashmina shaal' },
+    },
+    description: 'Soft wool shawl with hand embroidery at the borders. Real pashmina is warm to the touch and never shiny.',
+  },
+  {
+    objectName: 'Copper Kettle',
+    price: { min: 3500, typical: 5000, max: 7000, unit: 'piece', confidence: 'medium' },
+    translations: {
+      urdu: { name: 'تانبے کی کیتلی', phonetic: 'Taambay ki ketli' },
+      pashto: { name: 'د مسو چاینکه', phonetic: 'Da mso chainaka' },
+      punjabi: { name: 'تانبے دی کیتلی', phonetic: 'Taambay di ketli' },
+      sindhi: { name: 'ٽامي جي ڪيٽلي', phonetic: 'Tami ji ketli' },
+      balochi: { name: 'مسی کیتلی', phonetic: 'Misi ketli' },
+      hindko: { name: 'تانبے نی کیتلی', phonetic: 'Taambay ni ketli' },
+    },
+    description: 'Hammered copper kettle with tin lining, sold by weight in the old city. Check the lining before using it for tea.',
+    verifiedShops: [
+      { name: 'Misgaran Copper Works', location: 'Misgaran Bazaar, Andarshehr', specialty: 'Hammered copper and brassware' },
+    ],
+  },
+];
+
+/** A stall with three of the fixtures side by side, boxed as `box_2d` like a real reply. */
+export const SHELF_FIXTURE = {
+  items: [
+    { box_2d: [420, 40, 900, 330], ...ANALYSIS_FIXTURES[0] },
+    { box_2d: [380, 360, 880, 640], ...ANALYSIS_FIXTURES[1] },
+    { box_2d: [120, 660, 940, 970], ...ANALYSIS_FIXTURES[2] },
+  ],
+};
+
+export interface MockLine {
+  english: string;
+  /** Romanised local-language version; the mock doesn't need script. */
+  local: string;
+}
+
+/** What the traveler says, in order, in mock bridge sessions. */
+export const TRAVELER_LINES: MockLine[] = [
+  { english: 'How much is this?', local: 'Yeh kitnay ka hai?' },
+  { english: 'That is too expensive. Can you reduce it?', local: 'Yeh bohat mehnga hai. Thora kam kar dein?' },
+  { english: 'I will pay two thousand.', local: 'Main do hazaar doon ga.' },
+  { english: 'Okay, deal.', local: 'Theek hai, sauda pakka.' },
+];
+
+/** The seller's replies, in order. */
+export const SELLER_LINES: MockLine[] = [
+  { english: 'It is two thousand five hundred.', local: 'Yeh do hazaar paanch sau ka hai.' },
+  { english: 'For you, two thousand three hundred.', local: 'Aap ke liye do hazaar teen sau.' },
+  { english: 'Final price, two thousand two hundred.', local: 'Aakhri qeemat, do hazaar do sau.' },
+  { english: 'Thank you, come again.', local: 'Shukriya, phir aayiye ga.' },
+];
@@ -0,0 +1,195 @@
+import { ChatMessage, BridgeMode } from "../types.ts";
+import { AIProvider } from "./provider.ts";
+import { analysisContext } from "./gemini.ts";
+import { AnalysisValidationError, validateAnalysisResult, validateShelfAnalysis } from "./validation.ts";
+import { BridgeEmitter, LiveBridge, LiveBridgeConfig, LiveBridgeEvents, LiveBridgeStatus, Speaker } from "./liveBridge.ts";
+import { ANALYSIS_FIXTURES, MockLine, SELLER_LINES, SHELF_FIXTURE, TRAVELER_LINES } from "./mockFixtures.ts";
+
+/** Simulated round-trip, long enough for loading states to show. */
+export const MOCK_LATENCY_MS = 400;
+
+const TTS_SAMPLE_RATE = 24000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Same photo, same fixture: a cheap hash over a sample of the base64 text. */
+export function pickFixture(base64Image: string): number {
+  let hash = 0;
+  const step = Math.max(1, Math.floor(base64Image.length / 256));
+  for (let i = 0; i < base64Image.length; i += step) {
+    hash = (hash * 31 + base64Image.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % ANALYSIS_FIXTURES.length;
+}
+
+/** A soft two-note chime whose length follows the text, as 16-bit PCM at 24 kHz. */
+export function cannedSpeech(text: string): Uint8Array {
+  const seconds = Math.min(0.3 + text.length * 0.04, 2);
+  const samples = Math.round(seconds * TTS_SAMPLE_RATE);
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const t = i / TTS_SAMPLE_RATE;
+    const frequency = i < samples / 2 ? 440 : 660;
+    const envelope = Math.min(1, i / 480, (samples - i) / 480);
+    pcm[i] = Math.round(Math.sin(2 * Math.PI * frequency * t) * envelope * 0.2 * 0x7fff);
+  }
+  return new Uint8Array(pcm.buffer);
+}
+
+/**
+ * Scripted stand-in for the Live Bridge. Passive sessions play the dialogue
+ * on a timer; push-to-talk sessions answer each released turn with the next
+ * line for that speaker and its translation. No microphone or audio output.
+ */
+class MockLiveBridge implements LiveBridge {
+  private readonly config: LiveBridgeConfig;
+  private events = new BridgeEmitter();
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private currentStatus: LiveBridgeStatus = 'idle';
+  private transcript: ChatMessage[] = [];
+  private floor: Speaker | null = null;
+  private lineIndex: Record<Speaker, number> = { traveler: 0, seller: 0 };
+
+  constructor(config: LiveBridgeConfig) {
+    this.config = config;
+  }
+
+  get status(): LiveBridgeStatus {
+    return this.currentStatus;
+  }
+
+  get messages(): ChatMessage[] {
+    return this.transcript;
+  }
+
+  get mode(): BridgeMode {
+    return this.config.mode ?? 'passive';
+  }
+
+  on<K extends keyof LiveBridgeEvents>(event: K, listener: (payload: LiveBridgeEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  async start(): Promise<void> {
+    if (this.currentStatus !== 'idle' && this.currentStatus !== 'error') return;
+    this.setStatus('connecting');
+    this.later(MOCK_LATENCY_MS, () => {
+      this.setStatus('listening');
+      if (this.mode === 'passive') this.playDialogue();
+    });
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.floor = null;
+    this.finalize();
+    this.setStatus('idle');
+  }
+
+  beginTurn(speaker: Speaker): boolean {
+    if (this.mode !== 'pushToTalk' || (this.currentStatus !== 'listening' && this.currentStatus !== 'speaking')) return false;
+    this.floor = speaker;
+    this.events.emit('speaker', speaker);
+    return true;
+  }
+
+  endTurn(): void {
+    if (!this.floor) return;
+    const speaker = this.floor;
+    this.floor = null;
+    this.events.emit('speaker', null);
+    this.exchange(speaker);
+  }
+
+  private nextLine(speaker: Speaker): MockLine {
+    const lines = speaker === 'traveler' ? TRAVELER_LINES : SELLER_LINES;
+    return lines[this.lineIndex[speaker]++ % lines.length];
+  }
+
+  /** One turn: the speaker's words, then the spoken translation. */
+  private exchange(speaker: Speaker, onDone?: () => void) {
+    const line = this.nextLine(speaker);
+    const [heard, translated] = speaker === 'traveler' ? [line.english, line.local] : [line.local, line.english];
+    this.append({ role: speaker, text: heard });
+    this.later(MOCK_LATENCY_MS, () => {
+      this.setStatus('speaking');
+      // Passive bridges can't tell translations apart, so they label model speech as the seller, like the real one.
+      this.append(this.mode === 'pushToTalk' ? { role: speaker, text: translated, translation: true } : { role: 'seller', text: translated });
+      this.later(MOCK_LATENCY_MS * 2, () => {
+        this.finalize();
+        this.events.emit('turnComplete', this.transcript);
+        this.setStatus('listening');
+        onDone?.();
+      });
+    });
+  }
+
+  private playDialogue(turn = 0) {
+    if (turn >= TRAVELER_LINES.length * 2) return;
+    this.later(MOCK_LATENCY_MS * 3, () => this.exchange(turn % 2 === 0 ? 'traveler' : 'seller', () => this.playDialogue(turn + 1)));
+  }
+
+  private append(message: Pick<ChatMessage, 'role' | 'text' | 'translation'>) {
+    this.transcript = [...this.transcript, { id: `mock-${this.transcript.length}`, isFinal: false, timestamp: Date.now(), ...message }];
+    this.events.emit('transcript', this.transcript);
+  }
+
+  private finalize() {
+    if (this.transcript.every(m => m.isFinal)) return;
+    this.transcript = this.transcript.map(m => (m.isFinal ? m : { ...m, isFinal: true }));
+    this.events.emit('transcript', this.transcript);
+  }
+
+  private later(ms: number, fn: () => void) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, ms);
+    this.timers.add(timer);
+  }
+
+  private setStatus(status: LiveBridgeStatus) {
+    if (status === this.currentStatus) return;
+    this.currentStatus = status;
+    this.events.emit('status', status);
+  }
+}
+
+/** Deterministic offline backend for development, demos and tests. */
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  requiresApiKey: false,
+
+  async analyzeImage(base64Image, location, profile) {
+    await wait(MOCK_LATENCY_MS);
+    const context = analysisContext(location, profile);
+    const fixture = JSON.parse(JSON.stringify(ANALYSIS_FIXTURES[pickFixture(base64Image)]));
+    const outcome = validateAnalysisResult(fixture, context.languages);
+    if (!outcome.result) throw new AnalysisValidationError(outcome.issues);
+    const result = outcome.result;
+    result.groundingSources = [];
+    if (context.market) result.market = context.market;
+    result.profileId = context.profile.id;
+    return result;
+  },
+
+  async analyzeShelf(_base64Image, location, profile) {
+    await wait(MOCK_LATENCY_MS);
+    const context = analysisContext(location, profile);
+    const { items, issues } = validateShelfAnalysis(JSON.parse(JSON.stringify(SHELF_FIXTURE)), context.languages);
+    if (items.length === 0) throw new AnalysisValidationError(issues);
+    for (const item of items) {
+      if (context.market) item.result.market = context.market;
+      item.result.profileId = context.profile.id;
+    }
+    return { items, groundingSources: [] };
+  },
+
+  async generateTTS(text) {
+    await wait(MOCK_LATENCY_MS / 2);
+    return cannedSpeech(text);
+  },
+
+  createLiveBridge: (config) => new MockLiveBridge(config),
+};
@@ -0,0 +1,29 @@
+/**
+ * Asks for notification permission once. Safe to call repeatedly; resolves
+ * false where notifications are unsupported or were refused.
+ */
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!('Notification' in window)) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+/**
+ * Shows a system notification, going through the service worker when one is
+ * active so it also works while the app is in the background on Android.
+ */
+export async function notify(title: string, body: string, tag?: string) {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  const options: NotificationOptions = { body, tag };
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, options);
+      return;
+    }
+  } catch (e) {
+    console.warn('Bazaar-Sense: Service worker notification failed:', e);
+  }
+  new Notification(title, options);
+}
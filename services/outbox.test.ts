@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutboxEntry, ScanRecord } from '../types.ts';
+import { AuthError, NetworkError } from './errors.ts';
+import { MAX_OUTBOX_ATTEMPTS, enqueueCapture, listOutbox, processOutbox, removeOutboxEntry, retryOutboxEntry } from './outbox.ts';
+
+const entry: OutboxEntry = { id: 'q1', image: 'aGVsbG8=', thumbnail: 'data:image/jpeg;base64,aGVsbG8=', attempts: 0, timestamp: 1 };
+
+beforeEach(async () => {
+  for (const queued of await listOutbox()) await removeOutboxEntry(queued.id);
+  await enqueueCapture(entry);
+});
+
+describe('processOutbox', () => {
+  it('stops retrying at once when the error will not clear up', async () => {
+    const analyze = vi.fn().mockRejectedValue(new AuthError('API key not valid'));
+
+    const { failed } = await processOutbox(analyze);
+    await processOutbox(analyze);
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(failed[0]).toMatchObject({ attempts: 1, lastErrorKind: 'auth', failed: true });
+  });
+
+  it('retries network failures up to the attempt limit', async () => {
+    const analyze = vi.fn().mockRejectedValue(new NetworkError('Failed to fetch'));
+
+    for (let run = 0; run < MAX_OUTBOX_ATTEMPTS + 2; run++) await processOutbox(analyze);
+
+    expect(analyze).toHaveBeenCalledTimes(MAX_OUTBOX_ATTEMPTS);
+    expect((await listOutbox())[0]).toMatchObject({ attempts: MAX_OUTBOX_ATTEMPTS, failed: true });
+  });
+
+  it('sends a failed capture again once the user retries it', async () => {
+    await processOutbox(vi.fn().mockRejectedValue(new AuthError('API key not valid')));
+    await retryOutboxEntry((await listOutbox())[0]);
+
+    const record = { id: 'q1' } as ScanRecord;
+    const { completed } = await processOutbox(vi.fn().mockResolvedValue(record));
+
+    expect(completed).toEqual([record]);
+    expect(await listOutbox()).toEqual([]);
+  });
+});
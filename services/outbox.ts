@@ -0,0 +1,86 @@
+import { OutboxEntry, ScanRecord } from "../types.ts";
+import { deleteRecord, getAllRecords, putRecord } from "./db.ts";
+import { ErrorKind, classifyError } from "./errors.ts";
+import { hammingDistance } from "./image.ts";
+
+/** dHash bit distance under which two photos count as the same kind of item. */
+const SIMILARITY_THRESHOLD = 14;
+
+/** Sends after which a capture stops being retried automatically. */
+export const MAX_OUTBOX_ATTEMPTS = 3;
+
+/** Failures that can clear up on their own. A bad key, refusal or unreadable answer will not. */
+const RETRYABLE_KINDS: ErrorKind[] = ['network', 'quota', 'unknown'];
+
+export function enqueueCapture(entry: OutboxEntry): Promise<void> {
+  return putRecord('outbox', entry);
+}
+
+/** Pending captures, oldest first so they are analyzed in the order taken. */
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = await getAllRecords<OutboxEntry>('outbox');
+  return entries.reverse();
+}
+
+export function removeOutboxEntry(id: string): Promise<void> {
+  return deleteRecord('outbox', id);
+}
+
+/** Puts a capture that stopped retrying back in line with a fresh attempt count. */
+export function retryOutboxEntry(entry: OutboxEntry): Promise<void> {
+  const { failed: _failed, lastError: _lastError, lastErrorKind: _lastErrorKind, ...rest } = entry;
+  return putRecord('outbox', { ...rest, attempts: 0 });
+}
+
+export interface OutboxRunResult {
+  completed: ScanRecord[];
+  failed: OutboxEntry[];
+}
+
+/**
+ * Sends every queued capture through `analyze`, removing the ones that
+ * succeed. Stops early if the connection drops again. Failed entries stay
+ * queued with their attempt count bumped, and are marked `failed` once the
+ * error can't clear up by itself or `MAX_OUTBOX_ATTEMPTS` is reached.
+ */
+export async function processOutbox(
+  analyze: (entry: OutboxEntry) => Promise<ScanRecord>
+): Promise<OutboxRunResult> {
+  const completed: ScanRecord[] = [];
+  const failed: OutboxEntry[] = [];
+
+  for (const entry of await listOutbox()) {
+    if (!navigator.onLine) break;
+    if (entry.failed) continue;
+    try {
+      completed.push(await analyze(entry));
+      await removeOutboxEntry(entry.id);
+    } catch (err) {
+      const error = classifyError(err);
+      const attempts = entry.attempts + 1;
+      const updated: OutboxEntry = {
+        ...entry,
+        attempts,
+        lastError: error.message,
+        lastErrorKind: error.kind,
+        failed: !RETRYABLE_KINDS.includes(error.kind) || attempts >= MAX_OUTBOX_ATTEMPTS,
+      };
+      await putRecord('outbox', updated);
+      failed.push(updated);
+    }
+  }
+
+  return { completed, failed };
+}
+
+/** Past scans that look like the given photo, closest first. */
+export function findSimilarScans(hash: string | undefined, scans: ScanRecord[], limit = 3): ScanRecord[] {
+  if (!hash) return [];
+  return scans
+    .filter(scan => scan.hash)
+    .map(scan => ({ scan, distance: hammingDistance(hash, scan.hash!) }))
+    .filter(({ distance }) => distance <= SIMILARITY_THRESHOLD)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ scan }) => scan);
+}
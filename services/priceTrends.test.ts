@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, HistoryItem, PriceRange } from '../types.ts';
+import { canonicalItem, itemKey } from './canonicalItems.ts';
+import { checkEstimate, itemPriceHistory, priceSpread, spreadByPlace } from './priceTrends.ts';
+import { convertUnitPrice } from './pricing.ts';
+
+const price = (typical: number, unit: PriceRange['unit'] = 'pair'): PriceRange => ({ min: typical * 0.8, typical, max: typical * 1.2, unit, confidence: 'medium' });
+
+const entry = (id: string, objectName: string, overrides: Partial<HistoryItem>): HistoryItem => ({
+  id,
+  objectName,
+  price: price(2500),
+  timestamp: Number(id),
+  ...overrides,
+});
+
+describe('canonical items', () => {
+  it('groups differently worded names under one canonical item', () => {
+    expect(canonicalItem('Peshawari Chappal')?.id).toBe('peshawari-chappal');
+    expect(canonicalItem('Leather Kaptaan Chappals')?.id).toBe('peshawari-chappal');
+    expect(canonicalItem('Almonds (Kaghzi Badam)')?.id).toBe('almonds');
+    expect(canonicalItem('Hammered Copper Kettle')?.id).toBe('copper-kettle');
+    expect(canonicalItem('Copper Tray')?.id).toBe('copperware');
+  });
+
+  it('falls back to the normalised name for items outside the catalogue', () => {
+    expect(itemKey('Blue Pottery Vase')).toBe('name:blue-pottery-vase');
+    expect(itemKey('blue pottery  vases')).toBe('name:blue-pottery-vase');
+  });
+});
+
+describe('price trends', () => {
+  it('takes the median and middle half', () => {
+    expect(priceSpread([1, 2, 3, 4, 5])).toEqual({ count: 5, median: 3, low: 2, high: 4, min: 1, max: 5 });
+    expect(priceSpread([])).toBeNull();
+  });
+
+  it('converts between weights and counts, but not across kinds', () => {
+    expect(convertUnitPrice(100, 'gram', 'kg')).toBeCloseTo(100000);
+    expect(convertUnitPrice(1200, 'dozen', 'piece')).toBe(100);
+    expect(convertUnitPrice(100, 'kg', 'piece')).toBeNull();
+  });
+
+  it('charts an item per its usual unit, oldest first, by bazaar', () => {
+    const history = [
+      entry('3', 'Almonds', { price: price(3000, 'kg'), paidPKR: 1400, quantity: 0.5, market: { city: 'Peshawar', bazaarName: 'Namak Mandi' } }),
+      entry('1', 'Kaghzi Badam', { price: price(3, 'gram'), paidPKR: 5000, quantity: 2000, market: { city: 'Peshawar' } }),
+      entry('2', 'Almonds', { price: price(2800, 'kg'), market: { city: 'Peshawar', bazaarName: 'Namak Mandi' } }),
+      entry('4', 'Peshawari Chappal', { paidPKR: 2000 }),
+    ];
+    const trend = itemPriceHistory(history, 'almonds')!;
+    expect(trend.unit).toBe('kg');
+    expect(trend.points.map(point => [point.id, Math.round(point.estimate), point.paid && Math.round(point.paid)])).toEqual([
+      ['1', 3000, 2500],
+      ['2', 2800, null],
+      ['3', 3000, 2800],
+    ]);
+    expect(spreadByPlace(trend.points).map(({ place, spread }) => [place, spread.median])).toEqual([
+      ['Namak Mandi', 2800],
+      ['Peshawar', 2500],
+    ]);
+  });
+
+  it('flags estimates far from what we have paid, once there are enough purchases', () => {
+    const result = { objectName: 'Peshawari Chappal', price: price(2500), translations: {} } as AnalysisResult;
+    const one = [entry('1', 'Peshawari Chappal', { paidPKR: 1500 })];
+    expect(checkEstimate(result, one)).toBeNull();
+
+    const two = [...one, entry('2', 'Kaptaan Chappal', { paidPKR: 3400, quantity: 2 })];
+    expect(checkEstimate(result, two)).toMatchObject({ key: 'peshawari-chappal', direction: 'high', medianPaid: 1600, purchases: 2, unit: 'pair' });
+
+    const close = [...one, entry('2', 'Peshawari Chappal', { paidPKR: 2300 }), entry('3', 'Peshawari Chappal', { paidPKR: 2200 })];
+    expect(checkEstimate(result, close)).toBeNull();
+  });
+});
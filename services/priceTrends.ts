@@ -0,0 +1,140 @@
+import { AnalysisResult, HistoryItem, PriceUnit } from "../types.ts";
+import { itemKey } from "./canonicalItems.ts";
+import { convertUnitPrice } from "./pricing.ts";
+
+/** One log entry restated per unit, for charting. */
+export interface PricePoint {
+  id: string;
+  objectName: string;
+  timestamp: number;
+  /** The AI's typical price per unit at the time. */
+  estimate: number;
+  /** What we paid per unit, when the entry records a purchase. */
+  paid: number | null;
+  /** Bazaar, or city when no bazaar was matched. */
+  place: string;
+  scanId?: string;
+}
+
+export interface PriceSpread {
+  count: number;
+  median: number;
+  /** 25th and 75th percentiles. */
+  low: number;
+  high: number;
+  min: number;
+  max: number;
+}
+
+export interface ItemPriceHistory {
+  /** Every point is stated per this unit: the one the item is most often priced in. */
+  unit: PriceUnit;
+  /** Oldest first. */
+  points: PricePoint[];
+}
+
+/** Purchases needed before an estimate is compared against them. */
+export const MIN_PURCHASES_FOR_CHECK = 2;
+/** How far, as a ratio either way, an estimate may sit from the median paid before it is flagged. */
+export const ESTIMATE_TOLERANCE = 1.35;
+
+const UNKNOWN_PLACE = 'Unknown bazaar';
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function priceSpread(values: number[]): PriceSpread | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    median: quantile(sorted, 0.5),
+    low: quantile(sorted, 0.25),
+    high: quantile(sorted, 0.75),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+function mostCommonUnit(items: HistoryItem[]): PriceUnit | null {
+  const counts = new Map<PriceUnit, number>();
+  for (const item of items) {
+    if (item.price) counts.set(item.price.unit, (counts.get(item.price.unit) ?? 0) + 1);
+  }
+  let best: PriceUnit | null = null;
+  counts.forEach((count, unit) => {
+    if (best === null || count > counts.get(best)!) best = unit;
+  });
+  return best;
+}
+
+/**
+ * Log entries for one item (see `itemKey`), restated in its usual unit.
+ * Entries without a structured price, or in a unit that can't be
+ * converted, are left out.
+ */
+export function itemPriceHistory(history: HistoryItem[], key: string): ItemPriceHistory | null {
+  const items = history.filter(item => item.price && itemKey(item.objectName) === key);
+  const unit = mostCommonUnit(items);
+  if (!unit) return null;
+
+  const points: PricePoint[] = [];
+  for (const item of items) {
+    const price = item.price!;
+    const estimate = convertUnitPrice(price.typical, price.unit, unit);
+    if (estimate === null) continue;
+    const paidPerUnit = item.paidPKR !== undefined ? item.paidPKR / (item.quantity ?? 1) : null;
+    points.push({
+      id: item.id,
+      objectName: item.objectName,
+      timestamp: item.timestamp,
+      estimate,
+      paid: paidPerUnit !== null ? convertUnitPrice(paidPerUnit, price.unit, unit) : null,
+      place: item.market?.bazaarName ?? item.market?.city ?? UNKNOWN_PLACE,
+      scanId: item.scanId,
+    });
+  }
+  return { unit, points: points.sort((a, b) => a.timestamp - b.timestamp) };
+}
+
+/** Spread of prices paid per bazaar, busiest first. */
+export function spreadByPlace(points: PricePoint[]): { place: string; spread: PriceSpread }[] {
+  const byPlace = new Map<string, number[]>();
+  for (const point of points) {
+    if (point.paid === null) continue;
+    byPlace.set(point.place, [...(byPlace.get(point.place) ?? []), point.paid]);
+  }
+  return Array.from(byPlace, ([place, values]) => ({ place, spread: priceSpread(values)! }))
+    .sort((a, b) => b.spread.count - a.spread.count || a.place.localeCompare(b.place));
+}
+
+export interface EstimateCheck {
+  key: string;
+  direction: 'high' | 'low';
+  /** Estimate over median paid, both per `unit`. */
+  ratio: number;
+  medianPaid: number;
+  purchases: number;
+  unit: PriceUnit;
+}
+
+/**
+ * Compares a fresh estimate with what we've paid for the same item. Null
+ * until there are enough purchases, or when the estimate is within tolerance.
+ */
+export function checkEstimate(result: AnalysisResult, history: HistoryItem[]): EstimateCheck | null {
+  const key = itemKey(result.objectName);
+  const past = itemPriceHistory(history, key);
+  if (!past) return null;
+  const paid = priceSpread(past.points.flatMap(point => (point.paid !== null ? [point.paid] : [])));
+  const estimate = convertUnitPrice(result.price.typical, result.price.unit, past.unit);
+  if (!paid || paid.count < MIN_PURCHASES_FOR_CHECK || estimate === null || paid.median <= 0) return null;
+
+  const ratio = estimate / paid.median;
+  if (ratio <= ESTIMATE_TOLERANCE && ratio >= 1 / ESTIMATE_TOLERANCE) return null;
+  return { key, direction: ratio > 1 ? 'high' : 'low', ratio, medianPaid: paid.median, purchases: paid.count, unit: past.unit };
+}
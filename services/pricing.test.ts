@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { extractAmounts, normalizePrice } from './pricing.ts';
+
+describe('extractAmounts', () => {
+  it('reads marked amounts, ranges and shorthand', () => {
+    expect(extractAmounts('Rs. 1,500-2,500 per kg')).toEqual([1500, 2500]);
+    expect(extractAmounts('1.5k to 2 lakh')).toEqual([1500, 200000]);
+    expect(extractAmounts('800 rupay')).toEqual([800]);
+  });
+
+  it('does not take a year for a price', () => {
+    expect(extractAmounts('2024 price list: Rs 1800')).toEqual([1800]);
+    expect(extractAmounts('as of 2024')).toEqual([]);
+  });
+
+  it('does not take a quantity for a price', () => {
+    expect(extractAmounts('2 pairs for Rs. 3000')).toEqual([3000]);
+    expect(extractAmounts('2 pairs 3000')).toEqual([3000]);
+  });
+
+  it('skips phone numbers', () => {
+    expect(extractAmounts('Call 0300-1234567, Rs 900 each')).toEqual([900]);
+    expect(extractAmounts('+92 321 7654321')).toEqual([]);
+  });
+
+  it('keeps unmarked numbers near the estimate only', () => {
+    expect(extractAmounts('between 1200 and 5', 1500)).toEqual([1200]);
+    expect(extractAmounts('1200 or 5')).toEqual([1200, 5]);
+  });
+});
+
+describe('normalizePrice', () => {
+  it('parses legacy free text with the unit', () => {
+    expect(normalizePrice('Rs. 1500-2500 per 2 pairs (2024)')).toEqual({ min: 1500, typical: 2000, max: 2500, unit: 'pair', confidence: 'medium' });
+  });
+});
@@ -0,0 +1,180 @@
+import { PriceConfidence, PriceRange, PriceUnit } from "../types.ts";
+
+const UNIT_PATTERNS: [RegExp, PriceUnit][] = [
+  [/(?<![a-z])(pairs?|jor(a|ay)?)(?![a-z])/i, 'pair'],
+  [/(?<![a-z])(kgs?|kilo(gram)?s?|kilo)(?![a-z])/i, 'kg'],
+  [/(?<![a-z])(g|gm|gms|grams?)(?![a-z])/i, 'gram'],
+  [/(?<![a-z])tolas?(?![a-z])/i, 'tola'],
+  [/(?<![a-z])dozens?(?![a-z])/i, 'dozen'],
+  [/(?<![a-z])(m|meters?|metres?)(?![a-z])/i, 'meter'],
+  [/(?<![a-z])(yards?|gaz)(?![a-z])/i, 'yard'],
+  [/(?<![a-z])sets?(?![a-z])/i, 'set'],
+  [/(?<![a-z])(l|ltrs?|liters?|litres?)(?![a-z])/i, 'liter'],
+  [/(?<![a-z])(piece|pieces|pc|pcs|each|item|unit)(?![a-z])/i, 'piece'],
+];
+
+const UNITS: PriceUnit[] = ['piece', 'pair', 'kg', 'gram', 'tola', 'dozen', 'meter', 'yard', 'set', 'liter'];
+const CONFIDENCES: PriceConfidence[] = ['low', 'medium', 'high'];
+
+const UNIT_LABELS: Record<PriceUnit, string> = {
+  piece: 'piece',
+  pair: 'pair',
+  kg: 'kg',
+  gram: 'g',
+  tola: 'tola',
+  dozen: 'dozen',
+  meter: 'meter',
+  yard: 'yard',
+  set: 'set',
+  liter: 'liter',
+};
+
+/**
+ * Reads a unit out of free text such as "per kg" or "Rs. 800/pair".
+ */
+export function parseUnit(raw: unknown): PriceUnit | null {
+  if (typeof raw !== 'string') return null;
+  const text = raw.trim().toLowerCase();
+  if ((UNITS as string[]).includes(text)) return text as PriceUnit;
+  for (const [pattern, unit] of UNIT_PATTERNS) {
+    if (pattern.test(text)) return unit;
+  }
+  return null;
+}
+
+function toAmount(raw: unknown, estimate?: number | null): number | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) && raw >= 0 ? raw : null;
+  if (typeof raw !== 'string') return null;
+  const amounts = extractAmounts(raw, estimate ?? undefined);
+  return amounts.length > 0 ? amounts[0] : null;
+}
+
+const CURRENCY_BEFORE = /(?:(?:^|[^a-z])(?:rs\.?|pkr|rupees?|rupay)|₨)\s*$/i;
+const CURRENCY_AFTER = /^\s*(?:\/-|rs\b|pkr\b|rupees?\b|rupay\b)/i;
+const RANGE_JOIN = /^\s*(?:-|–|to)\s*$/i;
+const QUANTITY_AFTER = /^\s*(?:x\b|pairs?\b|pcs?\b|pieces?\b|items?\b|kgs?\b|kilos?\b|grams?\b|g\b|tolas?\b|dozens?\b|meters?\b|metres?\b|yards?\b|sets?\b|jor)/i;
+/** Mobile and landline numbers, which the amount pattern would read in pieces. */
+const PHONE_NUMBER = /(?:\+92|\b0)[\s-]?\d{2,4}[\s-]?\d{6,8}\b/g;
+/** How far from the estimate an unmarked number may be and still read as a price. */
+const PLAUSIBLE_FACTOR = 10;
+
+/**
+ * Pulls rupee amounts out of a string, understanding thousands separators
+ * and shorthand like "1.5k" or "2 lakh". Numbers with a currency marker (or
+ * range-joined to one) win; if there are none, bare numbers are taken unless
+ * they look like a year, a quantity ("2 pairs") or part of a phone number, and
+ * with an `estimate` they must also be within a factor of ten of it.
+ */
+export function extractAmounts(text: string, estimate?: number): number[] {
+  const scrubbed = text.replace(PHONE_NUMBER, match => ' '.repeat(match.length));
+  const marked: number[] = [];
+  const bare: number[] = [];
+  const pattern = /(\d{1,3}(?:,\d{2,3})+|\d+(?:\.\d+)?)(?:\s*(k|thousand|lakh|lac)(?![a-z]))?/gi;
+  let previous: { end: number; marked: boolean } | null = null;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(scrubbed)) !== null) {
+    let value = parseFloat(match[1].replace(/,/g, ''));
+    const suffix = match[2]?.toLowerCase();
+    if (suffix === 'k' || suffix === 'thousand') value *= 1000;
+    if (suffix === 'lakh' || suffix === 'lac') value *= 100000;
+
+    const end = match.index + match[0].length;
+    const after = scrubbed.slice(end);
+    const isMarked = !!suffix
+      || CURRENCY_BEFORE.test(scrubbed.slice(0, match.index))
+      || CURRENCY_AFTER.test(after)
+      || (previous?.marked === true && RANGE_JOIN.test(scrubbed.slice(previous.end, match.index)));
+    previous = { end, marked: isMarked };
+    if (!Number.isFinite(value)) continue;
+
+    if (isMarked) {
+      marked.push(Math.round(value));
+    } else {
+      const isYear = /^\d{4}$/.test(match[1]) && value >= 1900 && value <= 2100;
+      const isQuantity = QUANTITY_AFTER.test(after);
+      const plausible = !estimate || (value >= estimate / PLAUSIBLE_FACTOR && value <= estimate * PLAUSIBLE_FACTOR);
+      if (!isYear && !isQuantity && plausible) bare.push(Math.round(value));
+    }
+  }
+  return marked.length > 0 ? marked : bare;
+}
+
+function buildRange(values: number[], unit: PriceUnit, confidence: PriceConfidence, typical?: number | null): PriceRange | null {
+  const clean = values.filter(v => v > 0);
+  if (clean.length === 0 && !typical) return null;
+  const min = clean.length > 0 ? Math.min(...clean) : typical!;
+  const max = clean.length > 0 ? Math.max(...clean) : typical!;
+  let mid = typical ?? Math.round((min + max) / 2);
+  if (mid < min || mid > max) mid = Math.round((min + max) / 2);
+  return { min, typical: mid, max, unit, confidence };
+}
+
+/**
+ * Normalizes whatever the model emitted for a price into a `PriceRange`.
+ * Accepts the structured object we ask for, a bare number, or legacy
+ * free-text such as "Rs. 1500-2500 per kg". Returns null when no amount
+ * can be recovered.
+ */
+export function normalizePrice(raw: unknown): PriceRange | null {
+  if (raw === null || raw === undefined) return null;
+
+  if (typeof raw === 'number') {
+    return buildRange([raw], 'piece', 'low');
+  }
+
+  if (typeof raw === 'string') {
+    const amounts = extractAmounts(raw);
+    const unit = parseUnit(raw.replace(/\b(?:rs\.?|pkr|rupees?|rupay)(?![a-z])/gi, '')) ?? 'piece';
+    return buildRange(amounts, unit, amounts.length > 1 ? 'medium' : 'low');
+  }
+
+  if (typeof raw === 'object') {
+    const obj = raw as Record<string, unknown>;
+    const typical = toAmount(obj.typical);
+    const min = toAmount(obj.min, typical);
+    const max = toAmount(obj.max, typical);
+    const unit = parseUnit(obj.unit) ?? 'piece';
+    const confidence = CONFIDENCES.includes(obj.confidence as PriceConfidence)
+      ? obj.confidence as PriceConfidence
+      : 'medium';
+    const values = [min, max].filter((v): v is number => v !== null);
+    return buildRange(values, unit, confidence, typical);
+  }
+
+  return null;
+}
+
+export function formatPKR(amount: number): string {
+  return `Rs. ${Math.round(amount).toLocaleString('en-PK')}`;
+}
+
+/** Units that can be restated in another: how many of the base unit one of them holds. */
+const UNIT_IN_BASE: Partial<Record<PriceUnit, [PriceUnit, number]>> = {
+  kg: ['kg', 1],
+  gram: ['kg', 0.001],
+  tola: ['kg', 0.0116638],
+  piece: ['piece', 1],
+  dozen: ['piece', 12],
+  meter: ['meter', 1],
+  yard: ['meter', 0.9144],
+};
+
+/** A per-unit price restated per another unit, e.g. Rs./gram to Rs./tola. Null when the units don't convert. */
+export function convertUnitPrice(amount: number, from: PriceUnit, to: PriceUnit): number | null {
+  if (from === to) return amount;
+  const source = UNIT_IN_BASE[from];
+  const target = UNIT_IN_BASE[to];
+  if (!source || !target || source[0] !== target[0]) return null;
+  return amount * (target[1] / source[1]);
+}
+
+export function formatUnit(unit: PriceUnit): string {
+  return UNIT_LABELS[unit];
+}
+
+export function formatPriceRange(range: PriceRange): string {
+  const span = range.min === range.max
+    ? formatPKR(range.typical)
+    : `${formatPKR(range.min)}–${Math.round(range.max).toLocaleString('en-PK')}`;
+  return `${span} / ${formatUnit(range.unit)}`;
+}
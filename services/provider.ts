@@ -0,0 +1,51 @@
+import { AnalysisResult, CityProfile, Coordinates, SellerLanguage, ShelfAnalysis } from "../types.ts";
+import { analyzeImage, analyzeShelf, generateTTS } from "./gemini.ts";
+import { LiveBridge, LiveBridgeConfig, LiveBridgeSession } from "./liveBridge.ts";
+import { mockProvider } from "./mockProvider.ts";
+import { AuthError } from "./errors.ts";
+import { getActiveKey } from "./keyVault.ts";
+
+export type ProviderId = 'gemini' | 'mock';
+
+/** Everything the app asks of an AI backend. */
+export interface AIProvider {
+  readonly id: ProviderId;
+  /** False for backends that run without credentials, so the key screen can be skipped. */
+  readonly requiresApiKey: boolean;
+  analyzeImage(base64Image: string, location?: Coordinates, profile?: CityProfile): Promise<AnalysisResult>;
+  /** Every distinct item in a photo of a stall, each with its box. */
+  analyzeShelf(base64Image: string, location?: Coordinates, profile?: CityProfile): Promise<ShelfAnalysis>;
+  /** Raw 16-bit mono PCM at 24 kHz. */
+  generateTTS(text: string, language: SellerLanguage, profile: CityProfile): Promise<Uint8Array>;
+  createLiveBridge(config: LiveBridgeConfig): LiveBridge;
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  requiresApiKey: true,
+  analyzeImage,
+  analyzeShelf,
+  generateTTS,
+  createLiveBridge: (config) => {
+    const apiKey = getActiveKey();
+    if (!apiKey) throw new AuthError("KEY_NOT_CONFIGURED: The Gemini API key is missing.");
+    return new LiveBridgeSession({ ...config, apiKey });
+  },
+};
+
+/** Backend chosen at build time with AI_PROVIDER=mock|gemini; Gemini unless told otherwise. */
+export function configuredProviderId(): ProviderId {
+  return process.env.AI_PROVIDER === 'mock' ? 'mock' : 'gemini';
+}
+
+let current: AIProvider | null = null;
+
+export function getProvider(): AIProvider {
+  if (!current) current = configuredProviderId() === 'mock' ? mockProvider : geminiProvider;
+  return current;
+}
+
+/** Swaps the backend, e.g. for tests. Pass null to go back to the configured one. */
+export function setProvider(provider: AIProvider | null) {
+  current = provider;
+}
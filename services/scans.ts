@@ -0,0 +1,15 @@
+import { ScanRecord } from "../types.ts";
+import { getAllRecords, getRecord, putRecord } from "./db.ts";
+
+export function saveScan(scan: ScanRecord): Promise<void> {
+  return putRecord('scans', scan);
+}
+
+export function getScan(id: string): Promise<ScanRecord | undefined> {
+  return getRecord<ScanRecord>('scans', id);
+}
+
+/** Every stored scan, newest first. */
+export function listScans(): Promise<ScanRecord[]> {
+  return getAllRecords<ScanRecord>('scans');
+}
@@ -0,0 +1,45 @@
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let registered = false;
+
+/**
+ * Registers sw.js in production builds and reports when a new version has
+ * installed and is waiting. The callback receives `applyUpdate`, which
+ * activates the waiting worker and reloads once it has taken control.
+ */
+export function registerServiceWorker(onUpdateReady: (applyUpdate: () => void) => void) {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD || registered) return;
+  registered = true;
+
+  const promptFor = (worker: ServiceWorker) => {
+    onUpdateReady(() => {
+      let reloaded = false;
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (reloaded) return;
+        reloaded = true;
+        window.location.reload();
+      });
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  navigator.serviceWorker.register('/sw.js').then(registration => {
+    // An update may already be waiting from a previous visit.
+    if (registration.waiting && navigator.serviceWorker.controller) promptFor(registration.waiting);
+
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      if (!installing) return;
+      installing.addEventListener('statechange', () => {
+        // With no controller this is the first install, not an update.
+        if (installing.state === 'installed' && navigator.serviceWorker.controller) promptFor(installing);
+      });
+    });
+
+    const checkForUpdate = () => registration.update().catch(() => {});
+    setInterval(checkForUpdate, UPDATE_CHECK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') checkForUpdate();
+    });
+  }).catch(err => console.error('Service worker registration failed:', err));
+}
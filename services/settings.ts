@@ -0,0 +1,43 @@
+const MODEL_SETTINGS_KEY = 'bazaar_model_settings';
+
+/** Which Gemini models and voice the app calls. */
+export interface ModelSettings {
+  analysisModel: string;
+  /** Used after the analysis model hits its quota. */
+  fallbackModel: string;
+  ttsModel: string;
+  ttsVoice: string;
+}
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  analysisModel: 'gemini-3-flash-preview',
+  fallbackModel: 'gemini-flash-lite-latest',
+  ttsModel: 'gemini-2.5-flash-preview-tts',
+  ttsVoice: 'Kore',
+};
+
+export const ANALYSIS_MODELS = ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-flash-lite-latest'];
+export const TTS_MODELS = ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'];
+export const TTS_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+/** Stored settings over the defaults; unknown or malformed entries are ignored. */
+export function loadModelSettings(): ModelSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(MODEL_SETTINGS_KEY) ?? '{}');
+    const settings = { ...DEFAULT_MODEL_SETTINGS };
+    for (const key of Object.keys(settings) as (keyof ModelSettings)[]) {
+      if (typeof saved?.[key] === 'string' && saved[key].trim()) settings[key] = saved[key].trim();
+    }
+    return settings;
+  } catch {
+    return { ...DEFAULT_MODEL_SETTINGS };
+  }
+}
+
+export function saveModelSettings(settings: ModelSettings) {
+  localStorage.setItem(MODEL_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function resetModelSettings() {
+  localStorage.removeItem(MODEL_SETTINGS_KEY);
+}
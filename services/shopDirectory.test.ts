@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult } from '../types.ts';
+import { getBazaar } from './gazetteer.ts';
+import { SHOP_DIRECTORY, SHOP_DIRECTORY_IS_SAMPLE, findDirectoryShop, formatHours, getDirectoryShop, isOpenAt, matchShops, promptShops, purchasesAtShop } from './shopDirectory.ts';
+import { getCityProfile } from './cityProfiles.ts';
+
+const result = (shops: string[], profileId = 'peshawar'): AnalysisResult => ({
+  objectName: 'Peshawari Chappal',
+  price: { min: 1800, typical: 2500, max: 3500, unit: 'pair', confidence: 'high' },
+  translations: {},
+  profileId,
+  verifiedShops: shops.map(name => ({ name, location: 'Somewhere', specialty: 'Chappals' })),
+});
+
+describe('shop directory', () => {
+  it('has unique ids and only known bazaars', () => {
+    expect(new Set(SHOP_DIRECTORY.map(shop => shop.id)).size).toBe(SHOP_DIRECTORY.length);
+    for (const shop of SHOP_DIRECTORY) {
+      expect(getBazaar(shop.bazaarId)?.city, shop.id).toBe(shop.city);
+    }
+  });
+
+  it('falls back to the labelled sample, without partner codes, while the real directory is empty', () => {
+    expect(SHOP_DIRECTORY_IS_SAMPLE).toBe(true);
+    expect(SHOP_DIRECTORY.filter(shop => shop.partnerCode)).toEqual([]);
+  });
+
+  it('matches names loosely but not on a single shared word', () => {
+    expect(findDirectoryShop('Khyber Dry Fruit')?.id).toBe('khyber-dry-fruit');
+    expect(findDirectoryShop('KHYBER DRY-FRUIT TRADERS & Co.')?.id).toBe('khyber-dry-fruit');
+    expect(findDirectoryShop('Nooruddin Chappal')?.id).toBe('chacha-nooruddin-chappal');
+    expect(findDirectoryShop('Khyber Electronics')).toBeNull();
+    expect(findDirectoryShop('Khyber')).toBeNull();
+  });
+
+  it('labels only directory shops as verified, within the scan city', () => {
+    const listings = matchShops(result(['Chacha Nooruddin Chappal House', 'Saddar Shoe Palace', 'Anarkali Khussa Corner']));
+    expect(listings.map(listing => listing.shop?.id ?? null)).toEqual(['chacha-nooruddin-chappal', null, null]);
+  });
+
+  it('lists a shop suggested under two names once', () => {
+    const listings = matchShops(result(['Chacha Nooruddin Chappal House', 'Nooruddin Chappal']));
+    expect(listings).toHaveLength(1);
+  });
+
+  it('offers the bazaar shops to the prompt, or the whole city when the bazaar has none', () => {
+    const peshawar = getCityProfile('peshawar')!;
+    expect(promptShops(peshawar, { city: 'Peshawar', bazaarId: 'namak-mandi' }).map(shop => shop.id)).toEqual(['khyber-dry-fruit']);
+    expect(promptShops(peshawar, { city: 'Peshawar', bazaarId: 'karkhano' }).every(shop => shop.city === 'Peshawar')).toBe(true);
+  });
+
+  // Pakistan is UTC+5 all year, so each instant below is written as UTC.
+  const pkt = (day: number, hour: number) => new Date(Date.UTC(2026, 9, day, hour - 5, 0));
+
+  it('knows when a shop is open on Pakistan time, including its closed days', () => {
+    const hours = { open: '10:00', close: '20:00', closedOn: ['fri' as const] };
+    expect(isOpenAt(hours, pkt(19, 10))).toBe(true);
+    expect(isOpenAt(hours, pkt(19, 20))).toBe(false);
+    expect(isOpenAt(hours, pkt(23, 12))).toBe(false);
+    expect(isOpenAt(hours, pkt(19, 4))).toBe(false);
+    expect(formatHours(hours)).toBe('10:00–20:00, closed Friday');
+  });
+
+  it('keeps late shops open past midnight on the day they opened', () => {
+    const hours = { open: '18:00', close: '02:00', closedOn: ['fri' as const] };
+    expect(isOpenAt(hours, pkt(19, 23))).toBe(true);
+    expect(isOpenAt(hours, pkt(20, 1))).toBe(true);
+    expect(isOpenAt(hours, pkt(20, 3))).toBe(false);
+    expect(isOpenAt(hours, pkt(20, 17))).toBe(false);
+    // Thursday night runs into Friday; Friday night is closed.
+    expect(isOpenAt(hours, pkt(23, 1))).toBe(true);
+    expect(isOpenAt(hours, pkt(24, 1))).toBe(false);
+  });
+
+  it('finds purchases by shop id, or by name for older entries', () => {
+    const shop = getDirectoryShop('khyber-dry-fruit')!;
+    const base = { objectName: 'Almonds', price: null, timestamp: 1 };
+    const history = [
+      { ...base, id: 'a', shopId: 'khyber-dry-fruit', shopName: 'Renamed by hand' },
+      { ...base, id: 'b', shopName: 'Khyber Dry Fruit' },
+      { ...base, id: 'c', shopName: 'Khyber Dry Fruit', shopId: 'misgaran-copper' },
+      { ...base, id: 'd' },
+    ];
+    expect(purchasesAtShop(history, shop).map(item => item.id)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,174 @@
+import { AnalysisResult, CityProfile, Coordinates, HistoryItem, MarketMatch, ShopSuggestion } from "../types.ts";
+import { getCityProfile } from "./cityProfiles.ts";
+import directory from "./shopDirectory.json";
+import sampleDirectory from "./shopDirectory.sample.json";
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/** Daily opening times in Pakistan time, 24-hour "HH:MM". A close before the open runs past midnight. */
+export interface OpeningHours {
+  open: string;
+  close: string;
+  closedOn?: Weekday[];
+}
+
+/** A shop the team has visited and listed. Only these are shown as verified. */
+export interface DirectoryShop {
+  id: string;
+  name: string;
+  /** Other names the shop goes by, matched like the name. */
+  aliases?: string[];
+  bazaarId: string;
+  city: string;
+  categories: string[];
+  coordinates: Coordinates;
+  address: string;
+  /** Absent until the shop's hours have been confirmed. */
+  hours?: OpeningHours;
+  specialty: string;
+  contact?: { phone?: string; whatsapp?: string };
+  /** Discount code agreed with the shop; absent when it isn't a partner. */
+  partnerCode?: string;
+}
+
+interface ShopDirectoryFile {
+  version: number;
+  updated: string;
+  /** Set on the invented development sample, which is never presented as verified. */
+  sample?: boolean;
+  shops: DirectoryShop[];
+}
+
+/**
+ * Listings come only from the team, so the shipped directory may be empty.
+ * Development builds and tests fall back to the sample so the shop screens
+ * have something to show; production builds never load it.
+ */
+const data = (
+  (directory as ShopDirectoryFile).shops.length > 0 || import.meta.env.PROD ? directory : sampleDirectory
+) as ShopDirectoryFile;
+
+export const SHOP_DIRECTORY_IS_SAMPLE = data.sample === true;
+
+export const SHOP_DIRECTORY_VERSION = data.version;
+export const SHOP_DIRECTORY_UPDATED = data.updated;
+export const SHOP_DIRECTORY: DirectoryShop[] = data.shops;
+
+/** A shop the model suggested, and the directory entry it turned out to be, if any. */
+export interface ShopListing {
+  suggestion: ShopSuggestion;
+  shop: DirectoryShop | null;
+}
+
+/** Words that shop names add or drop freely, so "Khyber Dry Fruit" still finds "Khyber Dry Fruit Traders". */
+const FILLER_WORDS = new Set(['the', 'and', 'shop', 'store', 'house', 'traders', 'trading', 'co', 'company', 'works', 'centre', 'center', 'corner', 'gallery', 'emporium']);
+
+/** Lowercase words of a name with accents dropped; shared by shop and item matching. */
+export function nameWords(name: string): string[] {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function shopNameTokens(name: string): string[] {
+  return nameWords(name).filter(token => !FILLER_WORDS.has(token));
+}
+
+function namesMatch(a: string[], b: string[]): boolean {
+  if (a.length === 0 || b.length === 0) return false;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  // A single shared word ("Khyber") is too weak to call two shops the same.
+  if (shorter.length < 2 && a.length !== b.length) return false;
+  return shorter.every(token => longer.includes(token));
+}
+
+export function getDirectoryShop(id: string): DirectoryShop | undefined {
+  return SHOP_DIRECTORY.find(shop => shop.id === id);
+}
+
+/** Directory shops in the given cities, optionally narrowed to one bazaar. */
+export function directoryShopsFor(cities: string[], bazaarId?: string): DirectoryShop[] {
+  return SHOP_DIRECTORY.filter(shop => cities.includes(shop.city) && (!bazaarId || shop.bazaarId === bazaarId));
+}
+
+/** The directory entry a suggested shop name refers to, searched within `cities` when given. */
+export function findDirectoryShop(name: string, cities?: string[]): DirectoryShop | null {
+  const tokens = shopNameTokens(name);
+  const candidates = cities ? SHOP_DIRECTORY.filter(shop => cities.includes(shop.city)) : SHOP_DIRECTORY;
+  return candidates.find(shop => [shop.name, ...(shop.aliases ?? [])].some(known => namesMatch(tokens, shopNameTokens(known)))) ?? null;
+}
+
+/**
+ * Pairs each suggested shop with its directory entry. Matching runs at
+ * display time so stored scans pick up directory updates; a shop suggested
+ * twice under different names is listed once.
+ */
+export function matchShops(result: AnalysisResult): ShopListing[] {
+  const cities = getCityProfile(result.profileId)?.cities;
+  const seen = new Set<string>();
+  const listings: ShopListing[] = [];
+  for (const suggestion of result.verifiedShops ?? []) {
+    const shop = findDirectoryShop(suggestion.name, cities);
+    if (shop) {
+      if (seen.has(shop.id)) continue;
+      seen.add(shop.id);
+    }
+    listings.push({ suggestion, shop });
+  }
+  return listings;
+}
+
+/** Directory shops listed in the analysis prompt so the model can name real ones. */
+export function promptShops(profile: CityProfile, market: MarketMatch | null): DirectoryShop[] {
+  const inBazaar = market?.bazaarId ? directoryShopsFor(profile.cities, market.bazaarId) : [];
+  return inBazaar.length > 0 ? inBazaar : directoryShopsFor(profile.cities);
+}
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY_LABELS: Record<Weekday, string> = { sun: 'Sunday', mon: 'Monday', tue: 'Tuesday', wed: 'Wednesday', thu: 'Thursday', fri: 'Friday', sat: 'Saturday' };
+
+/** Every listed shop is in Pakistan, so hours are read on its clock whatever zone the phone is set to. */
+const SHOP_TIME = new Intl.DateTimeFormat('en-US', { timeZone: 'Asia/Karachi', weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+
+function shopClock(date: Date): { day: number; minutes: number } {
+  const parts = Object.fromEntries(SHOP_TIME.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    day: WEEKDAYS.indexOf(parts.weekday.toLowerCase() as Weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/** Whether the shop is open at `date`, on Pakistan time. */
+export function isOpenAt(hours: OpeningHours, date: Date): boolean {
+  const { day, minutes } = shopClock(date);
+  const open = minutesOf(hours.open);
+  const close = minutesOf(hours.close);
+  const opensOn = (weekday: number) => !hours.closedOn?.includes(WEEKDAYS[(weekday + 7) % 7]);
+  if (close > open) return opensOn(day) && minutes >= open && minutes < close;
+  // After midnight the shop is still on the day it opened.
+  return (opensOn(day) && minutes >= open) || (opensOn(day - 1) && minutes < close);
+}
+
+export function formatHours(hours: OpeningHours): string {
+  const days = hours.closedOn?.length ? `, closed ${hours.closedOn.map(day => WEEKDAY_LABELS[day]).join(' and ')}` : ', every day';
+  return `${hours.open}–${hours.close}${days}`;
+}
+
+/**
+ * Log entries bought at a shop: linked by id when logged after the
+ * directory existed, otherwise matched on the shop name typed at the time.
+ */
+export function purchasesAtShop(history: HistoryItem[], shop: DirectoryShop): HistoryItem[] {
+  return history.filter(item => item.shopId
+    ? item.shopId === shop.id
+    : item.shopName !== undefined && findDirectoryShop(item.shopName, [shop.city])?.id === shop.id);
+}
@@ -0,0 +1,15 @@
+import { ShopRating } from "../types.ts";
+import { deleteRecord, getAllRecords, putRecord } from "./db.ts";
+
+export function saveShopRating(rating: ShopRating): Promise<void> {
+  return putRecord('shopRatings', rating);
+}
+
+export function deleteShopRating(shopId: string): Promise<void> {
+  return deleteRecord('shopRatings', shopId);
+}
+
+/** Every shop we've rated, most recently rated first. */
+export function listShopRatings(): Promise<ShopRating[]> {
+  return getAllRecords<ShopRating>('shopRatings');
+}
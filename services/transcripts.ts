@@ -0,0 +1,68 @@
+import { ChatMessage, SellerLanguage, TranscriptRecord } from "../types.ts";
+import { getAllRecords, getRecord, putRecord } from "./db.ts";
+import { LANGUAGE_LABELS } from "./cityProfiles.ts";
+
+export type TranscriptFormat = 'text' | 'json';
+
+export function saveTranscript(transcript: TranscriptRecord): Promise<void> {
+  return putRecord('transcripts', transcript);
+}
+
+export function getTranscript(id: string): Promise<TranscriptRecord | undefined> {
+  return getRecord<TranscriptRecord>('transcripts', id);
+}
+
+/** Every stored bridge session, newest first. */
+export function listTranscripts(): Promise<TranscriptRecord[]> {
+  return getAllRecords<TranscriptRecord>('transcripts');
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'medium' });
+
+export function speakerLabel(message: Pick<ChatMessage, 'role' | 'translation'>, sellerLanguage: SellerLanguage): string {
+  const language = LANGUAGE_LABELS[sellerLanguage];
+  if (message.translation) return message.role === 'traveler' ? `Translated to ${language}` : 'Translated to English';
+  return message.role === 'traveler' ? 'Traveler (English)' : `Seller (${language})`;
+}
+
+export function transcriptToText(transcript: TranscriptRecord): string {
+  const lines = [
+    `Bazaar-Sense conversation: ${transcript.objectName}`,
+    `Seller language: ${LANGUAGE_LABELS[transcript.sellerLanguage]}`,
+    `Mode: ${transcript.mode === 'pushToTalk' ? 'push-to-talk' : 'passive'}`,
+    `Started: ${formatTime(transcript.timestamp)}`,
+    `Ended: ${transcript.endedAt ? formatTime(transcript.endedAt) : 'not recorded'}`,
+    '',
+    ...transcript.messages.map(message => {
+      const time = message.timestamp ? `[${new Date(message.timestamp).toLocaleTimeString()}] ` : '';
+      return `${time}${speakerLabel(message, transcript.sellerLanguage)}: ${message.text.trim()}`;
+    }),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+export function transcriptToJSON(transcript: TranscriptRecord): string {
+  return JSON.stringify({
+    ...transcript,
+    startedAt: new Date(transcript.timestamp).toISOString(),
+    endedAt: transcript.endedAt ? new Date(transcript.endedAt).toISOString() : null,
+    messages: transcript.messages.map(({ isFinal, ...message }) => message),
+  }, null, 2);
+}
+
+/** Saves the transcript to the device as a .txt or .json file. */
+export function downloadTranscript(transcript: TranscriptRecord, format: TranscriptFormat) {
+  const content = format === 'json' ? transcriptToJSON(transcript) : transcriptToText(transcript);
+  const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const slug = transcript.objectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'conversation';
+  const date = new Date(transcript.timestamp).toISOString().slice(0, 10);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${slug}-${date}.${format === 'json' ? 'json' : 'txt'}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight after click() cancels the download in Safari.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,232 @@
+import { AnalysisResult, AnalysisSection, BoundingBox, SellerLanguage, ShelfItem, ShopSuggestion, TranslationInfo } from "../types.ts";
+import { normalizePrice } from "./pricing.ts";
+import { ParseError } from "./errors.ts";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when a model response cannot be turned into a usable `AnalysisResult`.
+ * `issues` lists every field that failed, e.g. `translations.urdu.name: expected a non-empty string`.
+ */
+export class AnalysisValidationError extends ParseError {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid analysis response: ${formatIssues(issues)}`);
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface ValidationOutcome {
+  /** Null when a required field (object name or price) is unusable. */
+  result: AnalysisResult | null;
+  issues: ValidationIssue[];
+  missingSections: AnalysisSection[];
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(i => `${i.path}: ${i.message}`).join('; ');
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Finds the first balanced JSON object in a model reply, skipping markdown
+ * fences and any prose around it.
+ */
+export function extractJSONObject(text: string): unknown {
+  const cleaned = text.replace(/```(?:json)?/gi, '');
+  let start = cleaned.indexOf('{');
+
+  while (start !== -1) {
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < cleaned.length; i++) {
+      const ch = cleaned[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') inString = true;
+      else if (ch === '{') depth++;
+      else if (ch === '}' && --depth === 0) {
+        try {
+          return JSON.parse(cleaned.slice(start, i + 1));
+        } catch (e) {
+          break;
+        }
+      }
+    }
+    start = cleaned.indexOf('{', start + 1);
+  }
+
+  throw new AnalysisValidationError([{ path: '$', message: 'response did not contain a valid JSON object' }]);
+}
+
+function validateTranslation(raw: unknown, path: string, issues: ValidationIssue[]): TranslationInfo | null {
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'expected an object with name and phonetic' });
+    return null;
+  }
+  let ok = true;
+  if (!isText(raw.name)) {
+    issues.push({ path: `${path}.name`, message: 'expected a non-empty string' });
+    ok = false;
+  }
+  if (typeof raw.phonetic !== 'string') {
+    issues.push({ path: `${path}.phonetic`, message: 'expected a string' });
+    ok = false;
+  }
+  return ok ? { name: raw.name as string, phonetic: raw.phonetic as string } : null;
+}
+
+export function validateShopSuggestion(raw: unknown, path: string, issues: ValidationIssue[]): ShopSuggestion | null {
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'expected a shop object' });
+    return null;
+  }
+  const before = issues.length;
+  for (const field of ['name', 'location', 'specialty'] as const) {
+    if (!isText(raw[field])) issues.push({ path: `${path}.${field}`, message: 'expected a non-empty string' });
+  }
+  if (issues.length > before) return null;
+
+  return {
+    name: raw.name as string,
+    location: raw.location as string,
+    specialty: raw.specialty as string,
+  };
+}
+
+/**
+ * Checks every field of a parsed model response. Required fields make the
+ * whole result unusable; optional sections are dropped and reported in
+ * `missingSections` so the UI can still render what did come back.
+ */
+export function validateAnalysisResult(
+  raw: unknown,
+  languages: SellerLanguage[] = ['urdu', 'pashto']
+): ValidationOutcome {
+  const issues: ValidationIssue[] = [];
+  const missingSections: AnalysisSection[] = [];
+
+  if (!isObject(raw)) {
+    return { result: null, issues: [{ path: '$', message: 'expected a JSON object' }], missingSections };
+  }
+
+  let fatal = false;
+  if (!isText(raw.objectName)) {
+    issues.push({ path: 'objectName', message: 'expected a non-empty string' });
+    fatal = true;
+  }
+  const price = normalizePrice(raw.price ?? raw.pricePKR);
+  if (!price) {
+    issues.push({ path: 'price', message: 'expected { min, typical, max, unit, confidence } with numeric amounts' });
+    fatal = true;
+  }
+
+  // Older prompts put each language at the top level rather than under `translations`.
+  const rawTranslations = isObject(raw.translations) ? raw.translations : raw;
+  const translations: Partial<Record<SellerLanguage, TranslationInfo>> = {};
+  for (const language of languages) {
+    const translation = validateTranslation(rawTranslations[language], `translations.${language}`, issues);
+    if (translation) translations[language] = translation;
+    else missingSections.push(language);
+  }
+
+  let description: string | undefined;
+  if (isText(raw.description)) description = raw.description;
+  else {
+    issues.push({ path: 'description', message: 'expected a non-empty string' });
+    missingSections.push('description');
+  }
+
+  let locationTips: string | undefined;
+  if (typeof raw.locationTips === 'string') locationTips = raw.locationTips;
+  else if (raw.locationTips !== undefined) issues.push({ path: 'locationTips', message: 'expected a string' });
+
+  let verifiedShops: ShopSuggestion[] | undefined;
+  if (Array.isArray(raw.verifiedShops)) {
+    verifiedShops = raw.verifiedShops
+      .map((shop, i) => validateShopSuggestion(shop, `verifiedShops[${i}]`, issues))
+      .filter((shop): shop is ShopSuggestion => shop !== null);
+    if (verifiedShops.length === 0 && raw.verifiedShops.length > 0) missingSections.push('verifiedShops');
+  } else {
+    issues.push({ path: 'verifiedShops', message: 'expected an array of shops' });
+    missingSections.push('verifiedShops');
+  }
+
+  if (fatal) return { result: null, issues, missingSections };
+
+  const result: AnalysisResult = {
+    objectName: (raw.objectName as string).trim(),
+    price: price!,
+    translations,
+    description,
+    locationTips,
+    verifiedShops,
+  };
+  if (missingSections.length > 0) result.missingSections = missingSections;
+  return { result, issues, missingSections };
+}
+
+/**
+ * Reads a Gemini `box_2d` (`[ymin, xmin, ymax, xmax]` on a 0-1000 grid) into
+ * a normalized box, clamped to the photo. Degenerate boxes are rejected.
+ */
+export function normalizeBox(raw: unknown): BoundingBox | null {
+  if (!Array.isArray(raw) || raw.length !== 4) return null;
+  const values = raw.map(v => (typeof v === 'string' ? parseFloat(v) : v));
+  if (!values.every((v): v is number => typeof v === 'number' && Number.isFinite(v))) return null;
+  const [ymin, xmin, ymax, xmax] = values.map(v => Math.min(1000, Math.max(0, v)) / 1000);
+  if (xmax <= xmin || ymax <= ymin) return null;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+}
+
+export interface ShelfValidationOutcome {
+  items: ShelfItem[];
+  issues: ValidationIssue[];
+}
+
+/**
+ * Checks a multi-item reply: `{ "items": [...] }`, each entry an analysis
+ * without shops plus a `box_2d`. Unusable items are dropped and reported.
+ */
+export function validateShelfAnalysis(
+  raw: unknown,
+  languages: SellerLanguage[] = ['urdu', 'pashto']
+): ShelfValidationOutcome {
+  const issues: ValidationIssue[] = [];
+  const rawItems = Array.isArray(raw) ? raw : isObject(raw) ? raw.items : undefined;
+  if (!Array.isArray(rawItems)) {
+    return { items: [], issues: [{ path: 'items', message: 'expected an array of detected items' }] };
+  }
+
+  const items: ShelfItem[] = [];
+  rawItems.forEach((rawItem, i) => {
+    const path = `items[${i}]`;
+    if (!isObject(rawItem)) {
+      issues.push({ path, message: 'expected an object' });
+      return;
+    }
+    const box = normalizeBox(rawItem.box_2d ?? rawItem.box);
+    if (!box) issues.push({ path: `${path}.box_2d`, message: 'expected [ymin, xmin, ymax, xmax] between 0 and 1000' });
+
+    const outcome = validateAnalysisResult({ verifiedShops: [], ...rawItem }, languages);
+    issues.push(...outcome.issues.map(issue => ({ ...issue, path: `${path}.${issue.path}` })));
+    if (box && outcome.result) items.push({ box, result: outcome.result });
+  });
+  return { items, issues };
+}
@@ -1,22 +1,83 @@
+// Build-time values, filled in by the precache plugin in vite.config.ts.
+const BUILD_VERSION = self.__BUILD_VERSION__ || 'dev';
+const BUILD_ASSETS = self.__BUILD_ASSETS__ || ['/manifest.json'];
 
-const CACHE_NAME = 'bazaar-sense-v1';
-const ASSETS = [
-  '/',
-  '/index.html',
-  '/index.tsx',
-  '/manifest.json'
-];
+const CACHE_PREFIX = 'bazaar-sense-';
+const PRECACHE = `${CACHE_PREFIX}precache-${BUILD_VERSION}`;
+const RUNTIME = `${CACHE_PREFIX}runtime-${BUILD_VERSION}`;
+const APP_SHELL = '/index.html';
+const PRECACHE_URLS = [APP_SHELL, ...BUILD_ASSETS];
+
+// Third-party hosts index.html loads the shell from (styles, fonts, modules).
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
 
 self.addEventListener('install', (event) => {
+  // No skipWaiting here: the page asks for it once the user accepts the update.
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => cache.addAll(ASSETS))
+    caches.open(PRECACHE).then((cache) => cache.addAll(PRECACHE_URLS))
   );
 });
 
-self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request).then((response) => {
-      return response || fetch(event.request);
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && key !== PRECACHE && key !== RUNTIME)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+function networkFirst(request) {
+  return fetch(request)
+    .then((response) => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(PRECACHE).then((cache) => cache.put(APP_SHELL, copy));
+      }
+      return response;
+    })
+    .catch(() => caches.match(APP_SHELL, { cacheName: PRECACHE }));
+}
+
+function staleWhileRevalidate(request) {
+  return caches.open(RUNTIME).then((cache) =>
+    cache.match(request).then((cached) => {
+      const network = fetch(request)
+        .then((response) => {
+          cache.put(request, response.clone());
+          return response;
+        })
+        .catch(() => cached);
+      return cached || network;
     })
   );
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin && PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(request, { cacheName: PRECACHE }).then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
 });
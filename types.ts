@@ -1,14 +1,60 @@
+import type { ErrorKind } from "./services/errors.ts";
+
 export interface TranslationInfo {
   name: string;
   phonetic: string;
 }
 
-export interface VerifiedShop {
+export type SellerLanguage = 'urdu' | 'pashto' | 'punjabi' | 'sindhi' | 'balochi' | 'hindko';
+
+export interface CityProfile {
+  id: string;
+  name: string;
+  region: string;
+  /** Gazetteer city names covered by this profile. */
+  cities: string[];
+  /** Languages sellers are likely to speak, most common first. */
+  sellerLanguages: SellerLanguage[];
+  /** Dialect guidance passed to TTS and the live bridge, per language. */
+  dialectHints: Partial<Record<SellerLanguage, string>>;
+  /** Local pricing context added to the analysis prompt. */
+  priceContext: string;
+}
+
+export type PriceUnit = 'piece' | 'pair' | 'kg' | 'gram' | 'tola' | 'dozen' | 'meter' | 'yard' | 'set' | 'liter';
+
+export type PriceConfidence = 'low' | 'medium' | 'high';
+
+export interface PriceRange {
+  min: number;
+  typical: number;
+  max: number;
+  unit: PriceUnit;
+  confidence: PriceConfidence;
+}
+
+/**
+ * A shop the model suggested. It is only verified once it matches an entry
+ * in the shop directory; scans saved before the directory may also carry a
+ * model-invented `discountCode` and `rating`, which are never shown.
+ */
+export interface ShopSuggestion {
   name: string;
   location: string;
   specialty: string;
-  discountCode: string;
-  rating: number;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MarketMatch {
+  city: string;
+  bazaarId?: string;
+  bazaarName?: string;
+  /** Distance from the bazaar centroid when a bazaar was matched. */
+  distanceMeters?: number;
 }
 
 export interface GroundingSource {
@@ -17,22 +63,126 @@ export interface GroundingSource {
   type?: 'web' | 'maps';
 }
 
+export type AnalysisSection = SellerLanguage | 'description' | 'verifiedShops';
+
 export interface AnalysisResult {
   objectName: string;
-  pricePKR: string;
-  urdu: TranslationInfo;
-  pashto: TranslationInfo;
-  description: string;
+  price: PriceRange;
+  /** Local names for the item, keyed by the profile's seller languages. */
+  translations: Partial<Record<SellerLanguage, TranslationInfo>>;
+  description?: string;
   locationTips?: string;
   groundingSources?: GroundingSource[];
-  verifiedShops?: VerifiedShop[];
+  /** Model shop suggestions; the name is kept for scans already stored. */
+  verifiedShops?: ShopSuggestion[];
+  /** Where the photo was taken, resolved from the device position. */
+  market?: MarketMatch;
+  /** City profile the analysis was priced and translated for. */
+  profileId?: string;
+  /** Sections the model failed to return even after a repair attempt. */
+  missingSections?: AnalysisSection[];
+}
+
+/** Where an item sits in the photo, as fractions of its width and height from the top-left corner. */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ShelfItem {
+  box: BoundingBox;
+  result: AnalysisResult;
+}
+
+/** Several items read from one photo of a stall or shelf. */
+export interface ShelfAnalysis {
+  items: ShelfItem[];
+  groundingSources?: GroundingSource[];
+}
+
+/** Our own 1–5 rating and notes for a directory shop. */
+export interface ShopRating {
+  shopId: string;
+  rating: number;
+  notes?: string;
+  timestamp: number;
 }
 
 export interface HistoryItem {
   id: string;
   objectName: string;
-  pricePKR: string;
+  price: PriceRange | null;
+  /** Original free-text price kept from entries saved before structured pricing. */
+  legacyPriceText?: string;
+  market?: MarketMatch;
+  /** Amount actually paid in PKR for the whole quantity. */
+  paidPKR?: number;
+  /** How many price units were bought, e.g. 2 pairs or 0.5 kg. */
+  quantity?: number;
+  shopName?: string;
+  /** Shop directory entry the purchase was made at, when it was a listed shop. */
+  shopId?: string;
+  notes?: string;
+  /** Stored scan (photo and full analysis) this purchase came from. */
+  scanId?: string;
+  timestamp: number;
+}
+
+export interface ScanRecord {
+  id: string;
+  /** Small JPEG data URL of the captured photo. */
+  thumbnail: string;
+  result: AnalysisResult;
+  /** Perceptual hash of the photo, used to offer similar past scans offline. */
+  hash?: string;
+  timestamp: number;
+}
+
+export interface OutboxEntry {
+  id: string;
+  /** Full-size base64 JPEG to send once back online. */
+  image: string;
+  thumbnail: string;
+  hash?: string;
+  location?: Coordinates;
+  /** City profile chosen by hand at capture time, if any. */
+  profileId?: string;
+  attempts: number;
+  lastError?: string;
+  lastErrorKind?: ErrorKind;
+  /** Set once automatic retries stop; the capture waits for the user to retry or discard it. */
+  failed?: boolean;
+  timestamp: number;
+}
+
+/** Passive bridges let the model detect who is talking; push-to-talk marks each turn explicitly. */
+export type BridgeMode = 'passive' | 'pushToTalk';
+
+export interface ChatMessage {
+  id: string;
+  /** Who spoke. For translations, whose words were translated. */
+  role: 'traveler' | 'seller';
+  text: string;
+  isFinal: boolean;
+  /** The model's spoken translation rather than the speaker's own words. Only set in push-to-talk turns. */
+  translation?: boolean;
+  /** When the first words of this message were heard. */
+  timestamp?: number;
+}
+
+export interface TranscriptRecord {
+  id: string;
+  /** Stored scan the conversation was about. */
+  scanId?: string;
+  objectName: string;
+  sellerLanguage: SellerLanguage;
+  mode?: BridgeMode;
+  messages: ChatMessage[];
+  /** When the bridge session started. */
   timestamp: number;
+  endedAt?: number;
 }
 
 export enum AppState {
@@ -42,5 +192,12 @@ export enum AppState {
   ANALYZING = 'ANALYZING',
   RESULT = 'RESULT',
   ERROR = 'ERROR',
-  HISTORY = 'HISTORY'
+  HISTORY = 'HISTORY',
+  QUEUED = 'QUEUED',
+  TRANSCRIPT = 'TRANSCRIPT',
+  TRANSLATOR = 'TRANSLATOR',
+  SETTINGS = 'SETTINGS',
+  SHELF = 'SHELF',
+  SHOP = 'SHOP',
+  TREND = 'TREND'
 }
\ No newline at end of file
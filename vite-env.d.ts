@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+/** Key picker injected when the app runs inside AI Studio. */
+interface AIStudio {
+  hasSelectedApiKey(): Promise<boolean>;
+  openSelectKey(): Promise<void>;
+}
+
+interface Window {
+  aistudio?: AIStudio;
+}
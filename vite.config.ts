@@ -1,7 +1,43 @@
+/// <reference types="vitest/config" />
+import crypto from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Writes sw.js into the build. The precache list comes from Vite's build
+ * manifest and the cache version is a hash of it, so every deploy that
+ * changes an asset gets a fresh cache and the old one is dropped on activate.
+ */
+const precacheServiceWorker = (): Plugin => {
+  let outDir = 'dist';
+  return {
+    name: 'bazaar-sense-precache',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    writeBundle() {
+      const manifestPath = path.join(outDir, '.vite', 'manifest.json');
+      const manifest: Record<string, { file: string; css?: string[]; assets?: string[] }> =
+        JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      const files = new Set<string>();
+      Object.values(manifest).forEach(chunk => {
+        [chunk.file, ...(chunk.css ?? []), ...(chunk.assets ?? [])].forEach(file => files.add(`/${file}`));
+      });
+      files.delete('/index.html');
+      const assets = Array.from(files).sort();
+      const version = crypto.createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12);
+
+      const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+        .replace('self.__BUILD_VERSION__', JSON.stringify(version))
+        .replace('self.__BUILD_ASSETS__', JSON.stringify(assets));
+      fs.writeFileSync(path.join(outDir, 'sw.js'), source);
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,15 +45,25 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheServiceWorker()],
+      build: {
+        manifest: true,
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./vitest.setup.ts'],
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules', 'dist'],
       }
     };
 });